@@ -149,7 +149,7 @@ export default function AboutPage() {
             >
               historical system data
             </a>{" "}
-            {`published by Lyft. The animation plays at ${DEFAULT_SPEEDUP}x normal speed and covers 291.2 million trips in New York City since 2013.`}
+            {`published by Lyft. The animation plays at ${DEFAULT_SPEEDUP}x normal speed by default (change it with [ and ], reverse it with B) and covers 291.2 million trips in New York City since 2013.`}
           </p>
 
           <p>
@@ -1,11 +1,15 @@
 import { BikeMap } from "@/components/BikeMap";
+import { Filters } from "@/components/Filters";
 import { Search } from "@/components/Search";
+import { Settings } from "@/components/Settings";
 
 export default function Home() {
   return (
     <div className="h-dvh w-screen overflow-hidden">
       <BikeMap />
       <Search />
+      <Settings />
+      <Filters />
     </div>
   );
 }
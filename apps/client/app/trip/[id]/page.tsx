@@ -0,0 +1,27 @@
+import { BikeMap } from "@/components/BikeMap";
+import { Filters } from "@/components/Filters";
+import { Search } from "@/components/Search";
+import { Settings } from "@/components/Settings";
+import { TripPermalink } from "@/components/TripPermalink";
+
+type TripPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ t?: string }>;
+};
+
+export default async function TripPage({ params, searchParams }: TripPageProps) {
+  const { id } = await params;
+  const { t } = await searchParams;
+  // Trip start time (epoch ms) - optional, narrows the search to the days around it
+  const approxDateMs = t !== undefined && Number.isFinite(Number(t)) ? Number(t) : null;
+
+  return (
+    <div className="h-dvh w-screen overflow-hidden">
+      <BikeMap syncUrlState={false} />
+      <Search />
+      <Settings />
+      <Filters />
+      <TripPermalink id={decodeURIComponent(id)} approxDateMs={approxDateMs} />
+    </div>
+  );
+}
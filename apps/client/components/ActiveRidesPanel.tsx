@@ -5,6 +5,7 @@ import { forwardRef, memo, useImperativeHandle, useMemo, useRef } from "react";
 type ActiveRidesPanelProps = {
   graphData: GraphDataPoint[];
   simTimeMs: number;
+  reversed: boolean; // reverse playback: the window extends ahead of simTimeMs
   bearing: number;
 };
 
@@ -21,7 +22,7 @@ const PADDING = { top: 4, right: 4, bottom: 14, left: 4 };
 
 export const ActiveRidesPanel = memo(
   forwardRef<ActiveRidesPanelRef, ActiveRidesPanelProps>(function ActiveRidesPanel(
-    { graphData, simTimeMs, bearing },
+    { graphData, simTimeMs, reversed, bearing },
     ref
   ) {
     const fpsRef = useRef<HTMLDivElement>(null);
@@ -41,8 +42,8 @@ export const ActiveRidesPanel = memo(
         return { linePath: "", areaPath: "", maxCount: 0 };
       }
 
-      const simWindowStartMs = simTimeMs - SIM_GRAPH_WINDOW_SIZE_MS;
-      const simWindowEndMs = simTimeMs;
+      const simWindowStartMs = reversed ? simTimeMs : simTimeMs - SIM_GRAPH_WINDOW_SIZE_MS;
+      const simWindowEndMs = reversed ? simTimeMs + SIM_GRAPH_WINDOW_SIZE_MS : simTimeMs;
 
       const windowData = graphData.filter((d) => d.simTimeMs >= simWindowStartMs && d.simTimeMs <= simWindowEndMs);
       if (windowData.length === 0) {
@@ -54,8 +55,11 @@ export const ActiveRidesPanel = memo(
       const chartWidth = GRAPH_WIDTH - PADDING.left - PADDING.right;
       const chartHeight = GRAPH_HEIGHT - PADDING.top - PADDING.bottom;
 
+      // Mirrored in reverse so the newest point is always on the right
       const scaleX = (simTimeMs: number) =>
-        PADDING.left + ((simTimeMs - simWindowStartMs) / (simWindowEndMs - simWindowStartMs)) * chartWidth;
+        PADDING.left +
+        ((reversed ? simWindowEndMs - simTimeMs : simTimeMs - simWindowStartMs) / (simWindowEndMs - simWindowStartMs)) *
+          chartWidth;
 
       const scaleY = (count: number) =>
         PADDING.top + chartHeight - (count / (maxCount * 1.1)) * chartHeight;
@@ -74,7 +78,7 @@ export const ActiveRidesPanel = memo(
         ` Z`;
 
       return { linePath, areaPath, maxCount };
-    }, [graphData, simTimeMs]);
+    }, [graphData, simTimeMs, reversed]);
 
     const hasData = linePath.length > 0;
 
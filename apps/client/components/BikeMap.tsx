@@ -2,38 +2,71 @@
 
 import {
   CAMERA_POLLING_INTERVAL_MS,
-  CHUNKS_PER_BATCH,
   COLORS,
+  DENSITY_SAMPLE_INTERVAL_MS,
+  DOCK_OCCUPANCY_BUCKET_MS,
+  FLOW_ARC_WIDTH_PER_TRIP,
+  HEATMAP_RADIUS_PIXELS,
+  HEXBIN_ELEVATION_SCALE,
+  HEXBIN_RADIUS_METERS,
   INITIAL_VIEW_STATE,
-  NUM_LOOKAHEAD_BATCHES,
-  PREFETCH_THRESHOLD_CHUNKS,
+  MEMORY_BUDGET_BYTES,
+  MOBILE_MEMORY_BUDGET_BYTES,
   REAL_COLOR_TRANSITION_MS,
   REAL_FADE_DURATION_MS,
   REAL_MAX_FRAME_DELTA_MS,
-  SIM_CHUNK_SIZE_MS,
   SIM_GRAPH_WINDOW_SIZE_MS,
+  SIM_HEXBIN_WINDOW_MS,
+  SIM_SEEK_STEP_LARGE_MS,
+  SIM_SEEK_STEP_MS,
   SIM_TRAIL_LENGTH_MS,
+  STATION_ACTIVITY_RADIUS_PER_RIDE,
+  STATION_ACTIVITY_SAMPLE_INTERVAL_MS,
+  URL_STATE_UPDATE_INTERVAL_MS,
 } from "@/lib/config";
+import { BikeHeadLayer } from "@/lib/layers/bike-head-layer";
+import { TripFadeExtension, type TripFadeExtensionProps } from "@/lib/layers/trip-fade-extension";
+import { getNycDayStartMs } from "@/lib/format";
 import { createThrottledSampler } from "@/lib/misc";
-import { useAnimationStore } from "@/lib/stores/animation-store";
+import { aggregateFlows, type OdFlow } from "@/lib/od-flows";
+import { useAnimationStore, type SelectedTripInfo } from "@/lib/stores/animation-store";
+import { useDebugStore } from "@/lib/stores/debug-store";
 import { usePickerStore } from "@/lib/stores/location-picker-store";
+import { useMapLayersStore, type RenderMode } from "@/lib/stores/map-layers-store";
 import { useSearchStore } from "@/lib/stores/search-store";
+import { useFilterStore } from "@/lib/stores/filter-store";
+import { useSettingsStore } from "@/lib/stores/settings-store";
 import { useStationsStore, type Station } from "@/lib/stores/stations-store";
-import type { GraphDataPoint, Phase, ProcessedTrip } from "@/lib/trip-types";
-import { TripDataService } from "@/services/trip-data-service";
-import { DataFilterExtension, DataFilterExtensionProps } from "@deck.gl/extensions";
+import { createTripPathData } from "@/lib/trip-buffers";
+import { countActiveFilters, hasStationCriteria } from "@/lib/trip-filters";
+import type { GraphDataPoint, ProcessedTrip } from "@/lib/trip-types";
+import { parseUrlState, writeUrlState, type UrlViewState } from "@/lib/url-state";
+import { loadDockOccupancy, type DockOccupancyModel, type StationOccupancy } from "@/services/dock-occupancy";
+import { duckdbService } from "@/services/duckdb-service";
+import { getBikeColor, MAX_ALPHA, PATH_OPACITY, SimulationEngine } from "@/services/simulation-engine";
+import type { StationActivity } from "@/services/station-activity";
+import { telemetry } from "@/services/telemetry";
+import { HeatmapLayer, HexagonLayer } from "@deck.gl/aggregation-layers";
+import { DataFilterExtension } from "@deck.gl/extensions";
 import { TripsLayer } from "@deck.gl/geo-layers";
-import { IconLayer, PathLayer, ScatterplotLayer, SolidPolygonLayer } from "@deck.gl/layers";
+import { ArcLayer, IconLayer, PathLayer, ScatterplotLayer, SolidPolygonLayer } from "@deck.gl/layers";
 import { DeckGL } from "@deck.gl/react";
-import { Info, Pause, Play, Search, Shuffle } from "lucide-react";
+import { Activity, Filter, Info, Pause, Play, Search, Settings, Shuffle, SquareParking } from "lucide-react";
 import "mapbox-gl/dist/mapbox-gl.css";
 import { AnimatePresence } from "motion/react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Map as MapboxMap } from "react-map-gl/mapbox";
 import { ActiveRidesPanel, type ActiveRidesPanelRef } from "./ActiveRidesPanel";
+import { DebugOverlay } from "./DebugOverlay";
+import { FlowPanel } from "./FlowPanel";
 import { MapControlButton } from "./MapControlButton";
+import { RenderModeControl } from "./RenderModeControl";
 import { SelectedTripPanel } from "./SelectedTripPanel";
+import { SkippedRidesNotice } from "./SkippedRidesNotice";
+import { SpeedControl, stepSpeedup } from "./SpeedControl";
 import { TimeDisplay } from "./TimeDisplay";
+import { TimelineScrubber } from "./TimelineScrubber";
+import { getSelectedTripInfo } from "./TripPermalink";
 import { Kbd } from "./ui/kbd";
 
 import type { MapViewState } from "@deck.gl/core";
@@ -52,18 +85,20 @@ const ARROW_SVG = `data:image/svg+xml;base64,${btoa(`
 
 // Color utilities
 type Color4 = [number, number, number, number];
-const MAX_ALPHA = 0.8 * 255;
 
 // Layer accessor functions (extracted to avoid recreation on each render)
-const getPath = (d: ProcessedTrip) => d.path;
-const getTimestamps = (d: ProcessedTrip) => d.simTimestampsMs;
-// Use currentPathColor which includes viewer fade alpha
-const getTripColor = (d: ProcessedTrip): Color4 =>
-  d.isSelected
-    ? [COLORS.selected[0], COLORS.selected[1], COLORS.selected[2], d.currentPathColor[3]]
-    : d.currentPathColor;
-
-// IconLayer accessors - now use ProcessedTrip directly (no intermediate BikeHead objects)
+// Trip paths and timestamps are binary attributes (see createTripPathData), per-trip values are looked up by index
+const WHITE: Color4 = [255, 255, 255, 255];
+// Trips loaded before they became visible get their viewer fade from the fade-in (see TripFadeExtension)
+const getFadeTimes = (d: ProcessedTrip): [number, number, number] => [
+  d.simStartTimeMs,
+  d.simEndTimeMs,
+  d.simViewerFirstSeenMs ?? d.simVisibleStartMs,
+];
+
+// Fade phases, colors and head positions of all trips are computed on the GPU (TripFadeExtension, BikeHeadLayer).
+// These accessors are only used for the selected trip, whose state is updated in JS for camera follow
+// (SimulationEngine.updateTrip).
 const getBikeHeadPosition = (d: ProcessedTrip, { target }: { target: number[] }): [number, number, number] => {
   target[0] = d.currentPosition[0];
   target[1] = d.currentPosition[1];
@@ -89,227 +124,79 @@ const DIM_OVERLAY_POLYGON = [
 ];
 
 // Selected path color with fade in/out based on phase
-const PATH_OPACITY = 180;
 const getSelectedPathColor = (d: ProcessedTrip): Color4 => d.currentPathColor;
 
 // DataFilterExtension for GPU-based visibility filtering
 // filterSize: 2 means we filter on 2 values [simVisibleStartMs, simVisibleEndMs]
 const dataFilter = new DataFilterExtension({ filterSize: 2 });
 
+const tripFade = new TripFadeExtension();
+
 // Accessor for DataFilterExtension - returns [simVisibleStartMs, simVisibleEndMs]
 const getFilterValue = (d: ProcessedTrip): [number, number] => [d.simVisibleStartMs, d.simVisibleEndMs];
 
-// Interpolate between two angles, handling 360°/0° wrapping
-function interpolateAngle(from: number, to: number, factor: number): number {
-  from = ((from % 360) + 360) % 360;
-  to = ((to % 360) + 360) % 360;
-  let diff = to - from;
-  if (diff > 180) diff -= 360;
-  if (diff < -180) diff += 360;
-  return ((from + diff * factor) % 360 + 360) % 360;
-}
-
-// Update trip's mutable state in place. Returns true if visible.
-function updateTripState(
-  trip: ProcessedTrip,
-  simTimeMs: number,
-  realFadeDurationMs: number
-): boolean {
-  const {
-    path,
-    simVisibleStartMs,
-    simVisibleEndMs,
-    simFadeInEndMs,
-    simEndTimeMs,
-    firstSegmentBearing,
-    lastSegmentBearing,
-  } = trip;
-
-  // Not visible yet or already gone
-  if (simTimeMs < simVisibleStartMs || simTimeMs > simVisibleEndMs) {
-    trip.isVisible = false;
-    return false;
-  }
-
-  // Track when viewer first sees this trip
-  if (trip.simViewerFirstSeenMs === null) {
-    trip.simViewerFirstSeenMs = simTimeMs;
-  }
-
-  // Calculate viewer fade progress (0 to 1, clamped) - used as alpha multiplier
-  const viewerFadeProgress = Math.min(1, (simTimeMs - trip.simViewerFirstSeenMs) / realFadeDurationMs);
-
-  // Determine timeline phase and progress using precomputed boundaries
-  let phase: Phase;
-  let phaseProgress: number;
-
-  if (simTimeMs < simFadeInEndMs) {
-    phase = "fading-in";
-    phaseProgress = (simTimeMs - simVisibleStartMs) / realFadeDurationMs;
-  } else if (simTimeMs >= simEndTimeMs) {
-    phase = "fading-out";
-    phaseProgress = (simTimeMs - simEndTimeMs) / realFadeDurationMs;
-  } else {
-    phase = "moving";
-    phaseProgress = 1;
-  }
-
-  // Fast path for stationary phases - skip expensive look-ahead calculation
-  if (phase === "fading-in") {
-    trip.currentPosition[0] = path[0][0];
-    trip.currentPosition[1] = path[0][1];
-    trip.currentBearing = interpolateAngle(0, firstSegmentBearing, phaseProgress);
-    trip.currentPhase = phase;
-    trip.currentPhaseProgress = phaseProgress;
-    trip.isVisible = true;
-    computeTripColors(trip, viewerFadeProgress, 0, 1); // movingTimeMs and colorTransitionMs unused in fading-in
-    return true;
-  }
-
-  if (phase === "fading-out") {
-    trip.currentPosition[0] = path[path.length - 1][0];
-    trip.currentPosition[1] = path[path.length - 1][1];
-    trip.currentBearing = lastSegmentBearing;
-    trip.currentPhase = phase;
-    trip.currentPhaseProgress = phaseProgress;
-    trip.isVisible = true;
-    computeTripColors(trip, viewerFadeProgress, 0, 1); // movingTimeMs and colorTransitionMs unused in fading-out
-    return true;
-  }
-
-  // Moving phase: interpolate along route with look-ahead bearing
-  const { simTimestampsMs, cumulativeDistances } = trip;
-  const simMovingDurationMs = simEndTimeMs - simFadeInEndMs;
-  const movingProgress = simMovingDurationMs > 0
-    ? Math.max(0, Math.min(1, (simTimeMs - simFadeInEndMs) / simMovingDurationMs))
-    : 1;
-
-  // Map to timestamp along route
-  const simTripTimeMs = simTimestampsMs[0] + movingProgress * (simTimestampsMs[simTimestampsMs.length - 1] - simTimestampsMs[0]);
-
-  // Use cached index and scan forward (time only increases)
-  let idx = trip.lastSegmentIndex;
-  while (idx < simTimestampsMs.length - 1 && simTimestampsMs[idx + 1] < simTripTimeMs) {
-    idx++;
-  }
-  trip.lastSegmentIndex = idx;
-
-  let t = 0;
-  if (idx >= path.length - 1) {
-    trip.currentPosition[0] = path[path.length - 1][0];
-    trip.currentPosition[1] = path[path.length - 1][1];
-  } else {
-    const t0 = simTimestampsMs[idx];
-    const t1 = simTimestampsMs[idx + 1];
-    t = t1 > t0 ? (simTripTimeMs - t0) / (t1 - t0) : 0;
-
-    const p0 = path[idx];
-    const p1 = path[idx + 1];
-    trip.currentPosition[0] = p0[0] + t * (p1[0] - p0[0]);
-    trip.currentPosition[1] = p0[1] + t * (p1[1] - p0[1]);
-  }
-
-  // Calculate bearing using look-ahead point (~20m ahead)
-  const cumDist = cumulativeDistances;
-  const currentDist = cumDist[idx] + t * ((cumDist[idx + 1] ?? cumDist[idx]) - cumDist[idx]);
-  const totalDist = cumDist[cumDist.length - 1];
-  const lookAheadDist = Math.min(currentDist + 20, totalDist);
+// Station activity: area grows with departures + arrivals, color goes from outflow (draining) to inflow (filling)
+type StationActivityPoint = StationActivity & { position: [number, number] };
+const getStationActivityRadius = (d: StationActivityPoint) =>
+  Math.sqrt(d.departures + d.arrivals) * STATION_ACTIVITY_RADIUS_PER_RIDE;
+const getStationActivityColor = (d: StationActivityPoint): Color4 => {
+  const inflowShare = d.arrivals / (d.departures + d.arrivals);
+  const [r, g, b] = COLORS.stationOutflow.map((c, i) => Math.round(c + (COLORS.stationInflow[i] - c) * inflowShare));
+  return [r, g, b, 170];
+};
 
-  // Find look-ahead position (start from current idx since look-ahead is only ~20m ahead)
-  let laIdx = idx;
-  while (laIdx < cumDist.length - 1 && cumDist[laIdx + 1] < lookAheadDist) {
-    laIdx++;
-  }
+// Density modes: heatmap of visible bikes at their sampled positions, hexagons weighted by station departures
+const getHeatmapPosition = (d: ProcessedTrip) => d.currentPosition;
+const getDepartures = (d: StationActivityPoint) => d.departures;
 
-  // Interpolate look-ahead point
-  const laD0 = cumDist[laIdx];
-  const laD1 = cumDist[laIdx + 1] ?? laD0;
-  const laFrac = laD1 > laD0 ? (lookAheadDist - laD0) / (laD1 - laD0) : 0;
-  const laP0 = path[laIdx];
-  const laP1 = path[laIdx + 1] ?? laP0;
-  const lookAheadX = laP0[0] + laFrac * (laP1[0] - laP0[0]);
-  const lookAheadY = laP0[1] + laFrac * (laP1[1] - laP0[1]);
-
-  // Calculate bearing from current position to look-ahead point
-  const dx = lookAheadX - trip.currentPosition[0];
-  const dy = lookAheadY - trip.currentPosition[1];
-  trip.currentBearing = Math.atan2(dx, dy) * (180 / Math.PI);
-
-  // Update phase state
-  trip.currentPhase = phase;
-  trip.currentPhaseProgress = phaseProgress;
-  trip.isVisible = true;
-  const movingTimeMs = simTimeMs - simFadeInEndMs;
-  const colorTransitionMs = REAL_COLOR_TRANSITION_MS * (realFadeDurationMs / REAL_FADE_DURATION_MS); // scale with speedup
-  computeTripColors(trip, viewerFadeProgress, movingTimeMs, colorTransitionMs);
-
-  return true;
-}
-
-// Compute colors in-place based on current phase, progress, and viewer fade
-// movingTimeMs: time since movement started (for color transition during moving phase)
-// colorTransitionMs: duration for color transition (green -> bike color)
-function computeTripColors(trip: ProcessedTrip, viewerFadeProgress: number, movingTimeMs: number, colorTransitionMs: number): void {
-  const bikeColor = trip.bikeType === "electric_bike" ? COLORS.electric : COLORS.classic;
-  const phase = trip.currentPhase;
-  const progress = trip.currentPhaseProgress;
-
-  let r: number, g: number, b: number;
-  let headAlpha: number, pathAlpha: number;
-
-  switch (phase) {
-    case "fading-in":
-      // Fade in to 100% green
-      r = COLORS.fadeIn[0];
-      g = COLORS.fadeIn[1];
-      b = COLORS.fadeIn[2];
-      headAlpha = progress * MAX_ALPHA;
-      pathAlpha = progress * PATH_OPACITY;
-      break;
-    case "fading-out": {
-      // First 25%: bike color -> red, then stay red
-      const colorTransitionEnd = 0.25;
-      if (progress < colorTransitionEnd) {
-        const colorProgress = progress / colorTransitionEnd;
-        r = bikeColor[0] + (COLORS.fadeOut[0] - bikeColor[0]) * colorProgress;
-        g = bikeColor[1] + (COLORS.fadeOut[1] - bikeColor[1]) * colorProgress;
-        b = bikeColor[2] + (COLORS.fadeOut[2] - bikeColor[2]) * colorProgress;
-      } else {
-        r = COLORS.fadeOut[0];
-        g = COLORS.fadeOut[1];
-        b = COLORS.fadeOut[2];
-      }
-      headAlpha = (1 - progress) * MAX_ALPHA;
-      pathAlpha = (1 - progress) * PATH_OPACITY;
-      break;
-    }
-    default: {
-      // Moving: transition from green to bike color
-      const colorProgress = Math.min(1, movingTimeMs / colorTransitionMs);
-      r = COLORS.fadeIn[0] + (bikeColor[0] - COLORS.fadeIn[0]) * colorProgress;
-      g = COLORS.fadeIn[1] + (bikeColor[1] - COLORS.fadeIn[1]) * colorProgress;
-      b = COLORS.fadeIn[2] + (bikeColor[2] - COLORS.fadeIn[2]) * colorProgress;
-      headAlpha = MAX_ALPHA;
-      pathAlpha = PATH_OPACITY;
+function withStationPositions(activity: StationActivity[], stationByName: Map<string, Station>): StationActivityPoint[] {
+  const points: StationActivityPoint[] = [];
+  for (const stationActivity of activity) {
+    const station = stationByName.get(stationActivity.stationName);
+    if (station) {
+      points.push({ ...stationActivity, position: [station.longitude, station.latitude] });
     }
   }
+  return points;
+}
 
-  // Head and path always match
-  trip.currentHeadColor[0] = r;
-  trip.currentHeadColor[1] = g;
-  trip.currentHeadColor[2] = b;
-  trip.currentHeadColor[3] = headAlpha * viewerFadeProgress;
-
-  trip.currentPathColor[0] = r;
-  trip.currentPathColor[1] = g;
-  trip.currentPathColor[2] = b;
-  trip.currentPathColor[3] = pathAlpha * viewerFadeProgress;
+// Flow arcs: width grows with trips
+const getFlowWidth = (d: OdFlow) => Math.sqrt(d.tripIds.length) * FLOW_ARC_WIDTH_PER_TRIP;
+
+// Selection info for a trip on the map (stations must be loaded)
+function getProcessedTripInfo(trip: ProcessedTrip): SelectedTripInfo {
+  const { getStation } = useStationsStore.getState();
+  const startStation = getStation(trip.startStationName);
+  const endStation = getStation(trip.endStationName);
+
+  return {
+    id: trip.id,
+    bikeType: trip.bikeType,
+    memberCasual: trip.memberCasual,
+    startStationName: startStation.name,
+    endStationName: endStation.name,
+    startNeighborhood: startStation.neighborhood,
+    endNeighborhood: endStation.neighborhood,
+    startedAt: new Date(trip.realStartedAtMs),
+    endedAt: new Date(trip.realEndedAtMs),
+    routeDistance: trip.routeDistance,
+  };
 }
 
+// Dock occupancy: rings around stations estimated empty or full
+type StationOccupancyPoint = StationOccupancy & { position: [number, number] };
+const getDockStatusColor = (d: StationOccupancyPoint): Color4 =>
+  d.status === "empty" ? [...COLORS.dockEmpty, 220] : [...COLORS.dockFull, 220];
+
 // Cached interpolator for camera follow (avoid allocating new object every frame)
 const cameraInterpolator = new LinearInterpolator(["longitude", "latitude", "bearing"]);
 
-export const BikeMap = () => {
+type BikeMapProps = {
+  // Restore time/speed/view/selection from the URL on load and keep the URL updated
+  syncUrlState?: boolean;
+};
+
+export const BikeMap = ({ syncUrlState = true }: BikeMapProps) => {
   // Animation store
   const speedup = useAnimationStore((s) => s.speedup);
   const animationStartDate = useAnimationStore((s) => s.animationStartDate);
@@ -318,8 +205,6 @@ export const BikeMap = () => {
   const storePause = useAnimationStore((s) => s.pause);
   const isPlaying = useAnimationStore((s) => s.isPlaying);
   const isLoadingTrips = useAnimationStore((s) => s.isLoadingTrips);
-  const advanceSimTime = useAnimationStore((s) => s.advanceSimTime);
-  const setSimCurrentTimeMs = useAnimationStore((s) => s.setSimCurrentTimeMs);
   const selectedTripId = useAnimationStore((s) => s.selectedTripId);
   const selectedTripInfo = useAnimationStore((s) => s.selectedTripInfo);
   const selectTrip = useAnimationStore((s) => s.selectTrip);
@@ -327,7 +212,7 @@ export const BikeMap = () => {
 
   // Derived values (computed at consumption time)
   const realWindowStartMs = animationStartDate.getTime();
-  const realFadeDurationMs = REAL_FADE_DURATION_MS * speedup;
+  const realFadeDurationMs = REAL_FADE_DURATION_MS * Math.abs(speedup);
 
   const [activeTrips, setActiveTrips] = useState<ProcessedTrip[]>([]);
   const [animState, setAnimState] = useState<AnimationState>("init");
@@ -335,10 +220,29 @@ export const BikeMap = () => {
   const [graphData, setGraphData] = useState<GraphDataPoint[]>([]);
   const [bearing, setBearing] = useState(0);
   const [showHud, setShowHud] = useState(true);
+  const [stationActivity, setStationActivity] = useState<StationActivity[]>([]);
+  const [dockOccupancy, setDockOccupancy] = useState<DockOccupancyModel | null>(null);
+  const [heatmapTrips, setHeatmapTrips] = useState<ProcessedTrip[]>([]);
+  const [recentDepartures, setRecentDepartures] = useState<StationActivity[]>([]);
+  const [selectedFlowKey, setSelectedFlowKey] = useState<string | null>(null);
+  // Trips load once shared state from the URL is in the stores, so a shared link loads once
+  const [isUrlStateRestored, setIsUrlStateRestored] = useState(!syncUrlState);
 
   const { isPickingLocation, setPickedLocation, pickedLocation } = usePickerStore();
-  const { getStation, load: loadStations, stations } = useStationsStore();
+  const { load: loadStations, stations, stationByName } = useStationsStore();
   const { open: openSearch, step: searchStep } = useSearchStore();
+  const { toggle: toggleSettings } = useSettingsStore();
+  const toggleFilters = useFilterStore((s) => s.toggle);
+  const toggleDebug = useDebugStore((s) => s.toggle);
+  const showStationActivity = useMapLayersStore((s) => s.showStationActivity);
+  const toggleStationActivity = useMapLayersStore((s) => s.toggleStationActivity);
+  const showDockOccupancy = useMapLayersStore((s) => s.showDockOccupancy);
+  const toggleDockOccupancy = useMapLayersStore((s) => s.toggleDockOccupancy);
+  const renderMode = useMapLayersStore((s) => s.renderMode);
+  const cycleRenderMode = useMapLayersStore((s) => s.cycleRenderMode);
+  const flowGrouping = useMapLayersStore((s) => s.flowGrouping);
+  const flowThreshold = useMapLayersStore((s) => s.flowThreshold);
+  const activeFilterCount = useFilterStore((s) => countActiveFilters(s.spec));
 
   // Detect Mac vs Windows/Linux for keyboard shortcut display
   const [isMac, setIsMac] = useState(true); // Default to Mac to avoid layout shift
@@ -376,18 +280,22 @@ export const BikeMap = () => {
   const lastTimestampRef = useRef<number | null>(null);
   const panelRef = useRef<ActiveRidesPanelRef>(null);
   const smoothedFpsRef = useRef(60);
-  const visibleCountRef = useRef(0);
-  const tripMapRef = useRef<Map<string, ProcessedTrip>>(new Map());
-  const loadingChunksRef = useRef<Set<number>>(new Set());
-  const loadedChunksRef = useRef<Set<number>>(new Set());
-  const lastChunkRef = useRef(-1);
-  const lastBatchRef = useRef(-1);
-  const serviceRef = useRef<TripDataService | null>(null);
+  // Owns the trips and the sim clock - this component steps it and renders what it publishes
+  const engineRef = useRef<SimulationEngine | null>(null);
   const graphSamplerRef = useRef(createThrottledSampler({ intervalMs: 100 }));
   const fpsSamplerRef = useRef(createThrottledSampler({ intervalMs: 100 }));
+  const stationActivitySamplerRef = useRef(createThrottledSampler({ intervalMs: STATION_ACTIVITY_SAMPLE_INTERVAL_MS }));
+  const densitySamplerRef = useRef(createThrottledSampler({ intervalMs: DENSITY_SAMPLE_INTERVAL_MS }));
   const cameraSamplerRef = useRef(createThrottledSampler({ intervalMs: CAMERA_POLLING_INTERVAL_MS }));
   const currentZoomRef = useRef(INITIAL_VIEW_STATE.zoom);
   const currentBearingRef = useRef(INITIAL_VIEW_STATE.bearing);
+  const currentViewRef = useRef<UrlViewState>({
+    latitude: INITIAL_VIEW_STATE.latitude,
+    longitude: INITIAL_VIEW_STATE.longitude,
+    zoom: INITIAL_VIEW_STATE.zoom,
+    bearing: INITIAL_VIEW_STATE.bearing ?? 0,
+    pitch: INITIAL_VIEW_STATE.pitch ?? 0,
+  });
 
   // Button refs for keyboard shortcut animations
   const playPauseButtonRef = useRef<HTMLButtonElement>(null);
@@ -406,85 +314,15 @@ export const BikeMap = () => {
     }, 100);
   }, []);
 
-  // Get chunk index from simulation time (ms)
-  const getChunkIndex = useCallback(
-    (simTimeMs: number) => Math.floor(simTimeMs / SIM_CHUNK_SIZE_MS),
-    []
-  );
-
-  // Load rides starting in a specific chunk (from worker)
-  const loadUpcomingRides = useCallback(
-    async (chunkIndex: number) => {
-      if (loadedChunksRef.current.has(chunkIndex) || loadingChunksRef.current.has(chunkIndex)) {
-        return;
-      }
-
-      if (chunkIndex < 0 || !serviceRef.current) {
-        return;
-      }
-
-      loadingChunksRef.current.add(chunkIndex);
-
-      try {
-        // Request pre-processed trips from service
-        const trips = await serviceRef.current.requestChunk(chunkIndex);
-
-        // console.log(`Chunk ${chunkIndex}: ${trips.length} rides from worker`);
-
-        // Add to ref (dedupes by ID)
-        for (const trip of trips) {
-          tripMapRef.current.set(trip.id, trip);
-        }
-
-        loadedChunksRef.current.add(chunkIndex);
-      } finally {
-        loadingChunksRef.current.delete(chunkIndex);
-      }
-    },
-    []
-  );
-
-
-  const currentChunk = getChunkIndex(simTimeMs);
-
-  // On chunk change: load chunk from worker, prefetch next batch, cleanup old trips
-  useEffect(() => {
-    if (animState !== "playing") return;
-    if (currentChunk === lastChunkRef.current) return;
-
-    // console.log(`Entered chunk ${currentChunk}`);
-    lastChunkRef.current = currentChunk;
-
-    // Load this chunk and next chunk from worker
-    loadUpcomingRides(currentChunk);
-    loadUpcomingRides(currentChunk + 1);
-
-    // Check if we need to prefetch next batch (when 10 chunks from batch end)
-    const currentBatch = Math.floor(currentChunk / CHUNKS_PER_BATCH);
-    const chunkInBatch = currentChunk % CHUNKS_PER_BATCH;
-
-    if (chunkInBatch >= PREFETCH_THRESHOLD_CHUNKS && serviceRef.current) {
-      for (let i = 1; i <= NUM_LOOKAHEAD_BATCHES; i++) {
-        serviceRef.current.prefetchBatch(currentBatch + i);
-      }
-    }
-
-    // Clear previous batch from worker memory (already sent to main thread)
-    if (currentBatch > 0 && serviceRef.current) {
-      serviceRef.current.clearBatch(currentBatch - 1);
-    }
-
-    // Remove trips that have fully finished (including fade-out)
-    for (const [id, trip] of tripMapRef.current) {
-      if (trip.simVisibleEndMs < simTimeMs) {
-        tripMapRef.current.delete(id);
-      }
+  // Sample the data of a density mode from the engine
+  const updateDensityData = useCallback((mode: RenderMode) => {
+    const engine = engineRef.current;
+    if (mode === "heatmap") {
+      setHeatmapTrips(engine?.getVisibleTrips() ?? []);
+    } else if (mode === "hexbin") {
+      setRecentDepartures(engine?.getStationActivity(SIM_HEXBIN_WINDOW_MS) ?? []);
     }
-
-    // Sync state for rendering
-    const currentTrips = Array.from(tripMapRef.current.values());
-    setActiveTrips(currentTrips);
-  }, [currentChunk, animState, loadUpcomingRides, simTimeMs]);
+  }, []);
 
   // Start the animation loop (used by both play and resume)
   const startLoop = useCallback(() => {
@@ -493,7 +331,9 @@ export const BikeMap = () => {
         const realRawDeltaMs = timestamp - lastTimestampRef.current;
         // Cap delta to prevent time jumps when returning from background tab
         const realDeltaMs = Math.min(realRawDeltaMs, REAL_MAX_FRAME_DELTA_MS);
-        advanceSimTime(realDeltaMs * speedup);
+        engineRef.current?.step(realDeltaMs);
+        telemetry.recordFrame(realRawDeltaMs);
+        const visibleCount = engineRef.current?.getVisibleCount() ?? 0;
         const currentFps = 1000 / realRawDeltaMs;
         smoothedFpsRef.current = smoothedFpsRef.current * 0.9 + currentFps * 0.1;
         fpsSamplerRef.current.sample(() => {
@@ -504,34 +344,50 @@ export const BikeMap = () => {
             panelRef.current.mobileFps.textContent = `${Math.round(smoothedFpsRef.current)}`;
           }
           if (panelRef.current?.rides) {
-            panelRef.current.rides.textContent = visibleCountRef.current.toLocaleString();
+            panelRef.current.rides.textContent = visibleCount.toLocaleString();
           }
           if (panelRef.current?.mobileRides) {
-            panelRef.current.mobileRides.textContent = visibleCountRef.current.toLocaleString();
+            panelRef.current.mobileRides.textContent = visibleCount.toLocaleString();
           }
         });
 
         // Sample graph data at intervals
         graphSamplerRef.current.sample(() => {
-          const simTimeMs = useAnimationStore.getState().simCurrentTimeMs;
+          const { simCurrentTimeMs: simTimeMs, speedup } = useAnimationStore.getState();
           setGraphData((prev) => {
-            const newPoint = { simTimeMs, count: visibleCountRef.current };
+            const newPoint = { simTimeMs, count: visibleCount };
             const updated = [...prev, newPoint];
-            // Keep only points within rolling window
-            return updated.filter((p) => simTimeMs - p.simTimeMs <= SIM_GRAPH_WINDOW_SIZE_MS);
+            // Keep only points within rolling window (behind the playhead in the playing direction)
+            return updated.filter((p) => {
+              const simAgeMs = (simTimeMs - p.simTimeMs) * Math.sign(speedup);
+              return simAgeMs >= 0 && simAgeMs <= SIM_GRAPH_WINDOW_SIZE_MS;
+            });
           });
         });
 
+        // Station activity walks every recorded trip - only while the layer is on, at intervals
+        if (useMapLayersStore.getState().showStationActivity) {
+          stationActivitySamplerRef.current.sample(() => {
+            setStationActivity(engineRef.current?.getStationActivity() ?? []);
+          });
+        }
+
+        // Density modes need positions and counts on the CPU - only in those modes, at intervals
+        const { renderMode } = useMapLayersStore.getState();
+        if (renderMode !== "bikes") {
+          densitySamplerRef.current.sample(() => updateDensityData(renderMode));
+        }
+
         // Camera follow + cleanup - throttled to 500ms
         cameraSamplerRef.current.sample(() => {
           const state = useAnimationStore.getState();
           const selectedId = state.selectedTripId;
           if (selectedId === null) return;
 
-          const trip = tripMapRef.current.get(selectedId);
+          const trip = engineRef.current?.getTrip(selectedId);
 
-          // Clear selection if trip ended OR if trip no longer exists in map
-          if (!trip || state.simCurrentTimeMs > trip.simVisibleEndMs) {
+          // Clear selection if trip ended (or hasn't started, in reverse) OR if trip no longer exists in map
+          if (!trip || state.simCurrentTimeMs > trip.simVisibleEndMs || state.simCurrentTimeMs < trip.simVisibleStartMs) {
             state.selectTrip(null);
             return;
           }
@@ -555,19 +411,17 @@ export const BikeMap = () => {
     };
 
     rafRef.current = requestAnimationFrame(tick);
-  }, [speedup, advanceSimTime]);
+  }, [updateDensityData]);
 
   const play = useCallback(() => {
     setAnimState("playing");
-    setSimCurrentTimeMs(0);
     storePlay();
-    lastChunkRef.current = 0;
     lastTimestampRef.current = null;
     graphSamplerRef.current.reset();
     fpsSamplerRef.current.reset();
     setGraphData([]);
     startLoop();
-  }, [setSimCurrentTimeMs, storePlay, startLoop]);
+  }, [storePlay, startLoop]);
 
   const resume = useCallback(() => {
     lastTimestampRef.current = null; // Reset to avoid large delta on first frame
@@ -611,22 +465,43 @@ export const BikeMap = () => {
     }
   }, [play, pause, resume]);
 
+  // Seek to a real time. Seeks within batches the worker still holds happen in place,
+  // anything else reloads from the target time.
+  const seekTo = useCallback(async (realTargetMs: number) => {
+    const { animationStartDate, setAnimationStartDateAndPlay } = useAnimationStore.getState();
+    const engine = engineRef.current;
+    const canSeekInPlace = engine !== null && animStateRef.current === "playing";
+    if (!canSeekInPlace || !(await engine.seek(realTargetMs - animationStartDate.getTime()))) {
+      setAnimationStartDateAndPlay(new Date(realTargetMs));
+    }
+  }, []);
+
+  // Step the playhead by a fixed amount (J/L keys)
+  const stepBy = useCallback(
+    (simDeltaMs: number) => {
+      const { animationStartDate, simCurrentTimeMs } = useAnimationStore.getState();
+      seekTo(animationStartDate.getTime() + simCurrentTimeMs + simDeltaMs);
+    },
+    [seekTo]
+  );
+
   const toggleHud = useCallback(() => {
     setShowHud((prev) => !prev);
   }, []);
 
   // Initialize service and reload when config changes
-  const configRef = useRef<{ realWindowStartMs: number; speedup: number; dateSelectionKey: number } | null>(null);
+  // Speed is not part of the config - it's applied live (see the fade duration effect below)
+  const configRef = useRef<{ realWindowStartMs: number; dateSelectionKey: number } | null>(null);
   useEffect(() => {
+    if (!isUrlStateRestored) return;
     const prev = configRef.current;
     const isInitialMount = prev === null;
 
     // Skip if config unchanged (but always run on initial mount)
     if (!isInitialMount &&
         prev.realWindowStartMs === realWindowStartMs &&
-        prev.speedup === speedup &&
         prev.dateSelectionKey === dateSelectionKey) return;
-    configRef.current = { realWindowStartMs, speedup, dateSelectionKey };
+    configRef.current = { realWindowStartMs, dateSelectionKey };
 
     // Only log and reset state on config changes, not initial mount
     if (!isInitialMount) {
@@ -640,48 +515,45 @@ export const BikeMap = () => {
       lastTimestampRef.current = null;
 
       // Clear all state
-      tripMapRef.current.clear();
-      loadingChunksRef.current.clear();
-      loadedChunksRef.current.clear();
-      lastChunkRef.current = -1;
-      lastBatchRef.current = -1;
       graphSamplerRef.current.reset();
       fpsSamplerRef.current.reset();
       setActiveTrips([]);
+      useAnimationStore.getState().setBufferHealth(1);
+      useAnimationStore.getState().setSkippedRides(null);
+      useDebugStore.getState().setMemoryUsage(null);
       setAnimState("init");
       setGraphData([]);
     }
 
-    // Initialize/recreate service
-    const initService = async () => {
+    // Initialize/recreate engine
+    const initEngine = async () => {
       useAnimationStore.getState().setIsLoadingTrips(true);
       useAnimationStore.getState().setLoadError(null);
 
-      // Terminate old service if exists
-      serviceRef.current?.terminate();
+      // Terminate old engine if exists
+      engineRef.current?.terminate();
 
-      // Create new service
-      const service = new TripDataService({
+      // Create new engine - the store mirrors its time and buffer health for the rest of the UI
+      const engine = new SimulationEngine({
         realWindowStartMs,
         animationStartDate,
-        realFadeDurationMs,
-        onError: (error) => useAnimationStore.getState().setLoadError(error),
+        speedup: useAnimationStore.getState().speedup,
+        filter: useFilterStore.getState().filter,
+        // Phones and tablets get the smaller budget (mobile Safari kills tabs early)
+        memoryBudgetBytes: window.matchMedia("(pointer: coarse)").matches ? MOBILE_MEMORY_BUDGET_BYTES : MEMORY_BUDGET_BYTES,
       });
+      engine.on("trips", setActiveTrips);
+      engine.on("time", (simTimeMs) => useAnimationStore.getState().setSimCurrentTimeMs(simTimeMs));
+      engine.on("buffer-health", (health) => useAnimationStore.getState().setBufferHealth(health));
+      engine.on("error", (error) => useAnimationStore.getState().setLoadError(error));
+      engine.on("rides-skipped", (range) => useAnimationStore.getState().setSkippedRides(range));
+      engine.on("memory", (usage) => useDebugStore.getState().setMemoryUsage(usage));
 
-      serviceRef.current = service;
+      engineRef.current = engine;
 
       try {
-        // Initialize and get initial trips
-        const initialTrips = await service.init();
-
-        // Copy to local ref
-        tripMapRef.current = initialTrips;
-        for (let i = 0; i <= 2; i++) {
-          loadedChunksRef.current.add(i);
-        }
-        lastBatchRef.current = 0;
-
-        setActiveTrips(Array.from(tripMapRef.current.values()));
+        // Load initial trips (playback starts at sim time 0)
+        await engine.init();
         useAnimationStore.getState().setIsLoadingTrips(false);
 
         // Auto-play after trips load
@@ -694,14 +566,87 @@ export const BikeMap = () => {
       }
     };
 
-    initService();
+    initEngine();
 
     // Cleanup on unmount
     return () => {
-      serviceRef.current?.terminate();
-      serviceRef.current = null;
+      engineRef.current?.terminate();
+      engineRef.current = null;
     };
-  }, [realWindowStartMs, speedup, realFadeDurationMs, play, animationStartDate, dateSelectionKey]);
+  }, [realWindowStartMs, play, animationStartDate, dateSelectionKey, isUrlStateRestored]);
+
+  // Speed changed: the engine re-times fades of loaded trips instead of reloading everything
+  useEffect(() => {
+    engineRef.current?.setSpeedup(speedup);
+  }, [speedup]);
+
+  // Restore shared state from the URL on load
+  useEffect(() => {
+    if (!syncUrlState) return;
+    const urlState = parseUrlState(window.location.search);
+    const { setSpeedup, setAnimationStartDate, selectTrip } = useAnimationStore.getState();
+
+    // Before the time, which applying filters would otherwise reset to the current time
+    if (urlState.filterSpec) {
+      useFilterStore.getState().applySpec(urlState.filterSpec);
+    }
+    if (urlState.speedup !== null) {
+      setSpeedup(urlState.speedup);
+    }
+    if (urlState.timeMs !== null) {
+      setAnimationStartDate(new Date(urlState.timeMs));
+    }
+    if (urlState.view) {
+      const view = { ...currentViewRef.current, ...urlState.view };
+      currentViewRef.current = view;
+      currentZoomRef.current = view.zoom;
+      currentBearingRef.current = view.bearing;
+      setBearing(view.bearing);
+      setInitialViewState({ ...INITIAL_VIEW_STATE, ...view });
+    }
+
+    const tripId = urlState.tripId;
+    if (tripId !== null) {
+      // Trip must be in progress at the restored time, otherwise camera follow drops it
+      const loadTrip = async () => {
+        await duckdbService.init();
+        const [trip] = await Promise.all([
+          duckdbService.getTripById({
+            id: tripId,
+            approxDate: new Date(urlState.timeMs ?? useAnimationStore.getState().animationStartDate.getTime()),
+          }),
+          useStationsStore.getState().load(),
+        ]);
+        if (trip) {
+          selectTrip({ id: trip.id, info: getSelectedTripInfo(trip) });
+        }
+      };
+      loadTrip().catch((error) => console.error(`Failed to restore trip ${tripId} from URL:`, error));
+    }
+
+    // Station filters resolve again once the station list loads, which would reload trips
+    if (urlState.filterSpec && hasStationCriteria(urlState.filterSpec)) {
+      useStationsStore.getState().load().finally(() => setIsUrlStateRestored(true));
+    } else {
+      setIsUrlStateRestored(true);
+    }
+  }, [syncUrlState]);
+
+  // Keep the URL in sync with the current time, speed, view, selection and filters
+  useEffect(() => {
+    if (!syncUrlState) return;
+    const interval = setInterval(() => {
+      const state = useAnimationStore.getState();
+      writeUrlState({
+        timeMs: state.animationStartDate.getTime() + state.simCurrentTimeMs,
+        speedup: state.speedup,
+        view: currentViewRef.current,
+        tripId: state.selectedTripId,
+        filterSpec: useFilterStore.getState().spec,
+      });
+    }, URL_STATE_UPDATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [syncUrlState]);
 
   // Select a random visible biker with at least half their trip remaining
   const selectRandomBiker = useCallback(() => {
@@ -714,27 +659,10 @@ export const BikeMap = () => {
     if (eligibleTrips.length === 0) return;
     const randomTrip = eligibleTrips[Math.floor(Math.random() * eligibleTrips.length)];
 
-    const startStation = getStation(randomTrip.startStationName);
-    const endStation = getStation(randomTrip.endStationName);
-
-    selectTrip({
-      id: randomTrip.id,
-      info: {
-        id: randomTrip.id,
-        bikeType: randomTrip.bikeType,
-        memberCasual: randomTrip.memberCasual,
-        startStationName: startStation.name,
-        endStationName: endStation.name,
-        startNeighborhood: startStation.neighborhood,
-        endNeighborhood: endStation.neighborhood,
-        startedAt: new Date(randomTrip.realStartedAtMs),
-        endedAt: new Date(randomTrip.realEndedAtMs),
-        routeDistance: randomTrip.routeDistance,
-      },
-    });
-  }, [activeTrips, selectTrip, getStation, simTimeMs]);
+    selectTrip({ id: randomTrip.id, info: getProcessedTripInfo(randomTrip) });
+  }, [activeTrips, selectTrip, simTimeMs]);
 
-  // Keyboard shortcuts: Space for play/pause, R for random
+  // Keyboard shortcuts: Space for play/pause, R for random, [ ] for speed, B for reverse, J/L to step, M for render mode, S for station activity, O for dock occupancy, D for debug
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ignore if user is typing in an input
@@ -756,47 +684,171 @@ export const BikeMap = () => {
       } else if (e.key.toLowerCase() === "h" && !e.metaKey && !e.ctrlKey) {
         e.preventDefault();
         toggleHud();
+      } else if (e.key === "," && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        toggleSettings();
+      } else if (e.key.toLowerCase() === "f" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        toggleFilters();
+      } else if (e.key.toLowerCase() === "m" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        cycleRenderMode();
+      } else if (e.key.toLowerCase() === "s" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        toggleStationActivity();
+      } else if (e.key.toLowerCase() === "o" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        toggleDockOccupancy();
+      } else if (e.key.toLowerCase() === "d" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        toggleDebug();
+      } else if ((e.key === "[" || e.key === "]" || e.key === "{" || e.key === "}") && !e.metaKey && !e.ctrlKey) {
+        // [ ] step through presets, { } (shift) fine-tune
+        e.preventDefault();
+        const { speedup, setSpeedup } = useAnimationStore.getState();
+        const stepDirection = e.key === "]" || e.key === "}" ? 1 : -1;
+        setSpeedup(stepSpeedup(speedup, stepDirection, e.key === "{" || e.key === "}"));
+      } else if (e.key.toLowerCase() === "b" && !e.metaKey && !e.ctrlKey) {
+        e.preventDefault();
+        useAnimationStore.getState().toggleDirection();
+      } else if ((e.key.toLowerCase() === "j" || e.key.toLowerCase() === "l") && !e.metaKey && !e.ctrlKey) {
+        // J/L step back/forward, shift for a larger step
+        e.preventDefault();
+        if (animStateRef.current !== "playing") return;
+        const stepMs = e.shiftKey ? SIM_SEEK_STEP_LARGE_MS : SIM_SEEK_STEP_MS;
+        stepBy(e.key.toLowerCase() === "j" ? -stepMs : stepMs);
       }
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [togglePlayPause, selectRandomBiker, triggerButtonAnimation, toggleHud, isLoadingTrips]);
+  }, [togglePlayPause, selectRandomBiker, triggerButtonAnimation, toggleHud, toggleSettings, toggleFilters, cycleRenderMode, toggleStationActivity, toggleDockOccupancy, toggleDebug, stepBy, isLoadingTrips]);
 
 
   if (!process.env.NEXT_PUBLIC_MAPBOX_TOKEN) {
     throw new Error("NEXT_PUBLIC_MAPBOX_TOKEN is not set");
   }
 
-  // Update all trip states in place - GPU handles visibility filtering via DataFilterExtension
+  // Update the selected trip's state in place (for camera follow and the selected layers).
+  // Everything else is animated on the GPU.
   useMemo(() => {
-    let count = 0;
-    for (const trip of activeTrips) {
-      if (simTimeMs < trip.simVisibleStartMs || simTimeMs > trip.simVisibleEndMs) {
-        trip.isVisible = false;
-        continue;
-      }
-      updateTripState(trip, simTimeMs, realFadeDurationMs);
-      trip.isSelected = trip.id === selectedTripId;
-      count++;
+    if (selectedTripId !== null) {
+      engineRef.current?.updateTrip(selectedTripId);
     }
-    visibleCountRef.current = count;
+    // The engine holds the time and speed, these only trigger the update (every frame while playing)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTrips, simTimeMs, selectedTripId, realFadeDurationMs]);
 
   // Memoize selected trip data - O(1) map lookup instead of O(n) filter
   // Depends on activeTrips to recalculate when trips load after config change
   const selectedTripData = useMemo(() => {
     if (!selectedTripId) return [];
-    const trip = tripMapRef.current.get(selectedTripId);
+    const trip = engineRef.current?.getTrip(selectedTripId);
     return trip ? [trip] : [];
     // forgive me for this
     // eslint-disable-next-line react-hooks/exhaustive-deps 
   }, [selectedTripId, activeTrips]); 
 
+  // Recompute station activity when it's turned on and whenever trips change (chunks, seeks, config changes),
+  // so it's current while paused too. During playback the tick samples it in between.
+  useEffect(() => {
+    if (!showStationActivity) return;
+    setStationActivity(engineRef.current?.getStationActivity() ?? []);
+  }, [showStationActivity, activeTrips]);
+
+  // Same for the density modes: switching modes or loading trips resamples right away
+  useEffect(() => {
+    if (renderMode !== "bikes") updateDensityData(renderMode);
+  }, [renderMode, activeTrips, updateDensityData]);
+
+  // Station activity and recent departures with station positions (stations missing from stations.json are skipped)
+  const stationActivityData = useMemo(
+    () => withStationPositions(stationActivity, stationByName),
+    [stationActivity, stationByName]
+  );
+  const recentDeparturesData = useMemo(
+    () => withStationPositions(recentDepartures, stationByName),
+    [recentDepartures, stationByName]
+  );
+
+  // Flows between origins and destinations of the trips loaded for the current window (rebuilt per chunk)
+  const flows = useMemo(
+    () => (renderMode === "flows" ? aggregateFlows(activeTrips, flowGrouping, stationByName) : []),
+    [renderMode, activeTrips, flowGrouping, stationByName]
+  );
+  const shownFlows = useMemo(() => flows.filter((flow) => flow.tripIds.length >= flowThreshold), [flows, flowThreshold]);
+  // Selected by key, so the selection survives rebuilds while the flow still has loaded trips
+  const selectedFlow = useMemo(() => flows.find((flow) => flow.key === selectedFlowKey) ?? null, [flows, selectedFlowKey]);
+  const selectedFlowTrips = useMemo(() => {
+    if (!selectedFlow) return [];
+    const trips: ProcessedTrip[] = [];
+    for (const id of selectedFlow.tripIds) {
+      const trip = engineRef.current?.getTrip(id);
+      if (trip) trips.push(trip);
+    }
+    return trips.sort((a, b) => a.simStartTimeMs - b.simStartTimeMs);
+  }, [selectedFlow]);
+
+  const followFlowTrip = useCallback(
+    (trip: ProcessedTrip) => selectTrip({ id: trip.id, info: getProcessedTripInfo(trip) }),
+    [selectTrip]
+  );
+
+  // Dock occupancy only changes once per bucket - key everything on the bucket, not the frame
+  const realDockBucketStartMs =
+    Math.floor((realWindowStartMs + simTimeMs) / DOCK_OCCUPANCY_BUCKET_MS) * DOCK_OCCUPANCY_BUCKET_MS;
+  // NYC day start of the model being loaded (avoids duplicate loads while one is in flight)
+  const dockOccupancyLoadRef = useRef<number | null>(null);
+
+  // Load the occupancy model for the current day when the layer is on (again when playback crosses midnight)
+  useEffect(() => {
+    if (!showDockOccupancy || dockOccupancy?.containsTime(realDockBucketStartMs)) return;
+    const realDayStartMs = getNycDayStartMs(realDockBucketStartMs);
+    if (dockOccupancyLoadRef.current === realDayStartMs) return;
+    dockOccupancyLoadRef.current = realDayStartMs;
+
+    loadDockOccupancy(realDockBucketStartMs)
+      .then((model) => {
+        if (dockOccupancyLoadRef.current === realDayStartMs) setDockOccupancy(model);
+      })
+      .catch((error) => console.error("Failed to load dock occupancy:", error))
+      .finally(() => {
+        // Cleared on failure too, so the next bucket retries
+        if (dockOccupancyLoadRef.current === realDayStartMs) dockOccupancyLoadRef.current = null;
+      });
+  }, [showDockOccupancy, dockOccupancy, realDockBucketStartMs]);
+
+  // Stations estimated empty or full at the current bucket, with station positions
+  const dockOccupancyData = useMemo(() => {
+    if (!showDockOccupancy || !dockOccupancy?.containsTime(realDockBucketStartMs)) return [];
+    const points: StationOccupancyPoint[] = [];
+    for (const occupancy of dockOccupancy.getAllOccupancy(realDockBucketStartMs)) {
+      if (occupancy.status === "available") continue;
+      const station = stationByName.get(occupancy.stationName);
+      if (station) {
+        points.push({ ...occupancy, position: [station.longitude, station.latitude] });
+      }
+    }
+    return points;
+  }, [showDockOccupancy, dockOccupancy, realDockBucketStartMs, stationByName]);
+
+  // Concatenated paths for the trips layer - rebuilt when trips are added or dropped, not per frame
+  const tripPathData = useMemo(() => createTripPathData(activeTrips), [activeTrips]);
+
   const layers = useMemo(() => {
     const hasSelection = selectedTripData.length > 0;
     // Show stations (hide bikes) during station selection and results steps
     const showStations = searchStep === "station" || searchStep === "results";
+    // Shared TripFadeExtension props - the current time is a uniform, so nothing is recomputed per frame
+    const fadeProps = {
+      fadeCurrentTime: simTimeMs,
+      fadeDuration: realFadeDurationMs,
+      fadeTrailLength: SIM_TRAIL_LENGTH_MS,
+      fadeColorTransition: REAL_COLOR_TRANSITION_MS * (realFadeDurationMs / REAL_FADE_DURATION_MS), // scale with speedup
+      fadeInColor: COLORS.fadeIn,
+      fadeOutColor: COLORS.fadeOut,
+      fadeHighlightColor: COLORS.selected,
+    };
 
     return [
       // Station dots - fade in/out based on search step (GPU-accelerated transitions)
@@ -825,14 +877,48 @@ export const BikeMap = () => {
           getFillColor: showStations ? 700 : 200,
         },
       }),
+      // Station activity - departures + arrivals over a rolling window, toggled with S
+      new ScatterplotLayer<StationActivityPoint>({
+        id: "station-activity",
+        data: stationActivityData,
+        visible: showStationActivity && !showStations,
+        getPosition: (d) => d.position,
+        getRadius: getStationActivityRadius,
+        getFillColor: getStationActivityColor,
+        radiusUnits: "pixels",
+        radiusMinPixels: 2,
+        stroked: true,
+        getLineColor: [255, 255, 255, 60],
+        lineWidthMinPixels: 1,
+        pickable: false,
+        transitions: {
+          getRadius: STATION_ACTIVITY_SAMPLE_INTERVAL_MS,
+          getFillColor: STATION_ACTIVITY_SAMPLE_INTERVAL_MS,
+        },
+      }),
+      // Dock occupancy - stations estimated empty or full, toggled with O
+      new ScatterplotLayer<StationOccupancyPoint>({
+        id: "dock-occupancy",
+        data: dockOccupancyData,
+        visible: showDockOccupancy && !showStations,
+        getPosition: (d) => d.position,
+        getLineColor: getDockStatusColor,
+        getRadius: 7,
+        radiusUnits: "pixels",
+        filled: false,
+        stroked: true,
+        lineWidthUnits: "pixels",
+        getLineWidth: 2,
+        pickable: false,
+      }),
       // Trips layer - dimmed when selection active, hidden during station/results steps
-      // Uses DataFilterExtension to GPU-filter trips by visibility window
-      new TripsLayer<ProcessedTrip, DataFilterExtensionProps<ProcessedTrip>>({
+      // Uses TripFadeExtension to GPU-filter trips by visibility window and color them by phase
+      new TripsLayer<ProcessedTrip, TripFadeExtensionProps<ProcessedTrip>>({
         id: "trips",
-        data: activeTrips,
-        getPath,
-        getTimestamps,
-        getColor: getTripColor,
+        data: tripPathData,
+        positionFormat: "XY",
+        _pathType: "open", // binary paths are used as is (no normalization)
+        getColor: WHITE, // tinted by TripFadeExtension
         opacity: showStations ? 0 : 0.2,
         widthMinPixels: 3,
         jointRounded: true,
@@ -840,44 +926,91 @@ export const BikeMap = () => {
         trailLength: SIM_TRAIL_LENGTH_MS,
         currentTime: simTimeMs,
         pickable: false,
-        // GPU-based visibility filtering - only render trips where:
-        // simVisibleStartMs <= simTimeMs AND simVisibleEndMs >= simTimeMs
-        extensions: [dataFilter],
-        getFilterValue,
-        filterRange: [[-Infinity, simTimeMs], [simTimeMs, Infinity]],
+        extensions: [tripFade],
+        getFadeTimes: (_, { index }) => getFadeTimes(activeTrips[index]),
+        getFadeColor: (_, { index }) => getBikeColor(activeTrips[index]),
+        getFadeHighlighted: (_, { index }) => (activeTrips[index].id === selectedTripId ? 1 : 0),
+        visible: renderMode === "bikes",
+        ...fadeProps,
+        fadeMaxAlpha: PATH_OPACITY / 255,
         updateTriggers: {
-          getColor: [simTimeMs, selectedTripId],
+          getFadeHighlighted: [selectedTripId],
         },
         transitions: {
           opacity: showStations ? 0 : 700,
         },
       }),
-      new IconLayer({
+      // Bike heads - moved along their routes on the GPU
+      new BikeHeadLayer<TripFadeExtensionProps<ProcessedTrip>>({
         id: "bike-heads",
         data: activeTrips,
+        currentTime: simTimeMs, // fadeDuration is shared with TripFadeExtension
         billboard: false,
         opacity: showStations ? 0 : 0.75,
-        getPosition: getBikeHeadPosition,
-        getAngle: getBikeHeadAngle,
         getIcon: () => "arrow",
         getSize: 9,
-        getColor: getBikeHeadColor,
+        getColor: WHITE, // tinted by TripFadeExtension
         iconAtlas: ARROW_SVG,
         iconMapping: ICON_MAPPING,
         pickable: false,
-        // GPU-based visibility filtering
-        extensions: [dataFilter],
-        getFilterValue,
-        filterRange: [[-Infinity, simTimeMs], [simTimeMs, Infinity]],
-        updateTriggers: {
-          getPosition: [simTimeMs],
-          getAngle: [simTimeMs],
-          getColor: [simTimeMs, selectedTripId],
-        },
+        extensions: [tripFade],
+        getFadeTimes,
+        getFadeColor: getBikeColor,
+        visible: renderMode === "bikes",
+        ...fadeProps,
+        fadeMaxAlpha: MAX_ALPHA / 255,
         transitions: {
           opacity: showStations ? 0 : 700,
         },
       }),
+      // Heatmap of active rides - positions sampled on the CPU (DENSITY_SAMPLE_INTERVAL_MS)
+      new HeatmapLayer<ProcessedTrip>({
+        id: "bike-heatmap",
+        data: heatmapTrips,
+        visible: renderMode === "heatmap" && !showStations,
+        getPosition: getHeatmapPosition,
+        radiusPixels: HEATMAP_RADIUS_PIXELS,
+        intensity: 1,
+        threshold: 0.03,
+        pickable: false,
+      }),
+      // Departures over the last SIM_HEXBIN_WINDOW_MS, aggregated into extruded hexagons
+      new HexagonLayer<StationActivityPoint>({
+        id: "departure-hexbin",
+        data: recentDeparturesData,
+        visible: renderMode === "hexbin" && !showStations,
+        getPosition: (d) => d.position,
+        getElevationWeight: getDepartures,
+        getColorWeight: getDepartures,
+        elevationAggregation: "SUM",
+        colorAggregation: "SUM",
+        radius: HEXBIN_RADIUS_METERS,
+        coverage: 0.85,
+        extruded: true,
+        elevationScale: HEXBIN_ELEVATION_SCALE,
+        opacity: 0.8,
+        pickable: false,
+      }),
+      // Origin-destination flows - click an arc to list its trips
+      new ArcLayer<OdFlow>({
+        id: "od-flows",
+        data: shownFlows,
+        visible: renderMode === "flows" && !showStations,
+        getSourcePosition: (d) => d.source,
+        getTargetPosition: (d) => d.target,
+        getSourceColor: [...COLORS.flowOrigin, 180],
+        getTargetColor: [...COLORS.flowDestination, 180],
+        getWidth: getFlowWidth,
+        widthUnits: "pixels",
+        widthMinPixels: 1,
+        pickable: true,
+        autoHighlight: true,
+        highlightColor: [...COLORS.selected, 255],
+        onClick: ({ object }) => {
+          if (object) setSelectedFlowKey(object.key);
+          return true;
+        },
+      }),
       // Dimming overlay - always present, fades via GPU transitions
       new SolidPolygonLayer({
         id: "dim-overlay",
@@ -895,7 +1028,8 @@ export const BikeMap = () => {
             new PathLayer<ProcessedTrip>({
               id: "selected-route",
               data: selectedTripData,
-              getPath: (d) => d.path,
+              getPath: (d) => d.positions,
+              positionFormat: "XY",
               getColor: getSelectedPathColor,
               getWidth: 4,
               widthMinPixels: 2,
@@ -931,7 +1065,7 @@ export const BikeMap = () => {
           ]
         : []),
     ];
-  }, [activeTrips, simTimeMs, selectedTripId, selectedTripData, searchStep, stations]);
+  }, [activeTrips, tripPathData, simTimeMs, realFadeDurationMs, selectedTripId, selectedTripData, searchStep, stations, stationActivityData, showStationActivity, dockOccupancyData, showDockOccupancy, renderMode, heatmapTrips, recentDeparturesData, shownFlows]);
 
   const handleMapClick = useCallback(
     (info: { coordinate?: number[] }) => {
@@ -975,8 +1109,18 @@ export const BikeMap = () => {
           if ("zoom" in viewState && typeof viewState.zoom === "number") {
             currentZoomRef.current = viewState.zoom;
           }
+          // Track the full view for the shareable URL
+          if ("latitude" in viewState && "longitude" in viewState) {
+            currentViewRef.current = {
+              latitude: viewState.latitude,
+              longitude: viewState.longitude,
+              zoom: viewState.zoom,
+              bearing: viewState.bearing ?? 0,
+              pitch: viewState.pitch ?? 0,
+            };
+          }
         }}
-        getCursor={() => (isPickingLocation ? "crosshair" : "grab")}
+        getCursor={({ isHovering }) => (isPickingLocation ? "crosshair" : isHovering ? "pointer" : "grab")}
       >
         <MapboxMap
           mapboxAccessToken={process.env.NEXT_PUBLIC_MAPBOX_TOKEN}
@@ -1025,6 +1169,10 @@ export const BikeMap = () => {
               <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">Space</Kbd>
             </MapControlButton>
           )}
+          {/* Speed control */}
+          <SpeedControl />
+          {/* Render mode switch */}
+          <RenderModeControl />
           {/* Random button */}
           <MapControlButton ref={randomButtonRef} onClick={selectRandomBiker}>
             <span className="flex items-center gap-1.5">
@@ -1033,6 +1181,46 @@ export const BikeMap = () => {
             </span>
             <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">R</Kbd>
           </MapControlButton>
+          {/* Filters button */}
+          <MapControlButton onClick={toggleFilters}>
+            <span className="flex items-center gap-1.5">
+              <Filter className="w-4 h-4" />
+              Filters
+              {activeFilterCount > 0 && (
+                <span className="text-[10px] leading-none tabular-nums bg-white/20 rounded-full px-1.5 py-0.5">
+                  {activeFilterCount}
+                </span>
+              )}
+            </span>
+            <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">F</Kbd>
+          </MapControlButton>
+          {/* Station activity button */}
+          <MapControlButton onClick={toggleStationActivity}>
+            <span className="flex items-center gap-1.5">
+              <Activity className={`w-4 h-4 ${showStationActivity ? "text-emerald-400" : ""}`} />
+              Stations
+            </span>
+            <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">S</Kbd>
+          </MapControlButton>
+          {/* Dock occupancy button */}
+          <MapControlButton
+            onClick={toggleDockOccupancy}
+            title="Net-flow estimate: bikes replayed from departures and arrivals, not real dock counts"
+          >
+            <span className="flex items-center gap-1.5">
+              <SquareParking className={`w-4 h-4 ${showDockOccupancy ? "text-amber-300" : ""}`} />
+              Dock estimate
+            </span>
+            <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">O</Kbd>
+          </MapControlButton>
+          {/* Settings button */}
+          <MapControlButton onClick={toggleSettings}>
+            <span className="flex items-center gap-1.5">
+              <Settings className="w-4 h-4" />
+              Settings
+            </span>
+            <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">,</Kbd>
+          </MapControlButton>
           <a
             href="/about"
             className="flex items-center justify-between gap-3 bg-black/45 hover:bg-black/55 hover:scale-[1.02] active:scale-95 text-white/90 text-sm font-medium pl-2.5 pr-2.5 py-2 sm:pl-2 sm:pr-2 sm:py-1.5 rounded-full border border-white/10 backdrop-blur-md transition-all duration-200 ease-out shadow-[0_0_20px_rgba(0,0,0,0.6)] hover:duration-100 active:duration-200 outline-none"
@@ -1048,6 +1236,8 @@ export const BikeMap = () => {
         {/* Time - absolutely centered */}
         <div className="absolute left-1/2 -translate-x-1/2 pointer-events-auto flex flex-col items-center">
           <TimeDisplay simTimeMs={simTimeMs} realWindowStartDate={animationStartDate} />
+          <TimelineScrubber simTimeMs={simTimeMs} realWindowStartDate={animationStartDate} onSeek={seekTo} />
+          <SkippedRidesNotice />
           {/* SelectedTripPanel - mobile only (below time) */}
           <AnimatePresence>
             {selectedTripInfo && (
@@ -1060,7 +1250,7 @@ export const BikeMap = () => {
 
         {/* Stats - right */}
         <div className="pointer-events-none">
-          <ActiveRidesPanel ref={panelRef} graphData={graphData} simTimeMs={simTimeMs} bearing={bearing} />
+          <ActiveRidesPanel ref={panelRef} graphData={graphData} simTimeMs={simTimeMs} reversed={speedup < 0} bearing={bearing} />
           {/* SelectedTripPanel - desktop only (right side) */}
           <AnimatePresence>
             {selectedTripInfo && (
@@ -1072,6 +1262,20 @@ export const BikeMap = () => {
         </div>
       </div>
       )}
+
+      {/* Flow controls and the clicked flow's trips (flows mode only) */}
+      {showHud && renderMode === "flows" && (
+        <FlowPanel
+          flows={flows}
+          selectedFlow={selectedFlow}
+          selectedFlowTrips={selectedFlowTrips}
+          simTimeMs={simTimeMs}
+          onCloseFlow={() => setSelectedFlowKey(null)}
+          onFollowTrip={followFlowTrip}
+        />
+      )}
+
+      <DebugOverlay />
     </div>
   );
 };
@@ -0,0 +1,101 @@
+import { formatBytes } from "@/lib/format";
+import { useDebugStore } from "@/lib/stores/debug-store";
+import { telemetry, type Percentiles, type TelemetrySummary } from "@/services/telemetry";
+import { useEffect, useState } from "react";
+
+// Telemetry is recorded outside React, so the overlay polls it while open
+const REFRESH_INTERVAL_MS = 500;
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-white/50">{label}</span>
+      <span className="tabular-nums">{value}</span>
+    </div>
+  );
+}
+
+function Section({ title }: { title: string }) {
+  return <div className="text-white/50 uppercase tracking-wide text-[10px] mt-2 mb-1 first:mt-0">{title}</div>;
+}
+
+function formatPercentiles(percentiles: Percentiles | null): string {
+  if (!percentiles) return "-";
+  const { p50, p95, p99 } = percentiles;
+  return `${Math.round(p50)} / ${Math.round(p95)} / ${Math.round(p99)} ms`;
+}
+
+function downloadDiagnostics(data: object): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `bikemap-diagnostics-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Toggle with D
+export function DebugOverlay() {
+  const isOpen = useDebugStore((s) => s.isOpen);
+  const memoryUsage = useDebugStore((s) => s.memoryUsage);
+  const [summary, setSummary] = useState<TelemetrySummary | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => setSummary(telemetry.getSummary());
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const totalBytes = memoryUsage
+    ? memoryUsage.workerBytes + memoryUsage.mainThreadBytes + memoryUsage.routeCacheBytes
+    : 0;
+
+  return (
+    <div className="absolute bottom-3 left-3 z-10 w-64 bg-black/70 backdrop-blur-md px-3 py-2 rounded-lg border border-white/10 font-mono text-[11px] text-white/90 pointer-events-none">
+      <Section title="Memory" />
+      {memoryUsage ? (
+        <>
+          <Row label="Total" value={`${formatBytes(totalBytes)} / ${formatBytes(memoryUsage.budgetBytes)}`} />
+          <Row label="Worker" value={`${formatBytes(memoryUsage.workerBytes)} · ${memoryUsage.batchCount} batches`} />
+          <Row label="Main thread" value={formatBytes(memoryUsage.mainThreadBytes)} />
+          <Row label="Routes" value={formatBytes(memoryUsage.routeCacheBytes)} />
+          <Row label="Evicted" value={`${memoryUsage.evictedBatchCount} batches`} />
+        </>
+      ) : (
+        <div className="text-white/50">Waiting for playback...</div>
+      )}
+
+      {summary && (
+        <>
+          <Section title="Timings (p50 / p95 / p99)" />
+          <Row label="Frame" value={formatPercentiles(summary.frameMs)} />
+          <Row label="Chunk" value={formatPercentiles(summary.chunkLatencyMs)} />
+          <Row label="Query" value={formatPercentiles(summary.queryMs)} />
+
+          <Section title="Loading" />
+          <Row label="HTTP reads" value={`${summary.httpReads} · ${formatBytes(summary.httpBytes)}`} />
+          <Row label="Worker queue" value={`${summary.workerQueueDepth} (max ${summary.maxWorkerQueueDepth})`} />
+          {summary.recentBatches.map((batch) => (
+            <Row
+              key={`${batch.realStartedAtMs}:${batch.batchIds.join(",")}`}
+              label={`Batch ${batch.batchIds.join(",")}${batch.queued ? "*" : ""}`}
+              value={`${Math.round(batch.fetchMs)} + ${Math.round(batch.processMs)} ms`}
+            />
+          ))}
+        </>
+      )}
+
+      <button
+        onClick={() => downloadDiagnostics({ ...telemetry.export(), memory: memoryUsage })}
+        className="mt-2 w-full rounded border border-white/10 bg-white/10 py-1 text-white/80 hover:bg-white/20 pointer-events-auto"
+      >
+        Export JSON
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useFilterStore } from "@/lib/stores/filter-store"
+import { useStationsStore } from "@/lib/stores/stations-store"
+import { DEFAULT_TRIP_FILTER_SPEC, type NumberRange, type TripFilterSpec } from "@/lib/trip-filters"
+import { cn } from "@/lib/utils"
+import { X } from "lucide-react"
+import React from "react"
+
+const BIKE_TYPES = [
+  { value: "classic_bike", label: "Classic" },
+  { value: "electric_bike", label: "E-bike" },
+]
+
+const RIDER_TYPES = [
+  { value: "member", label: "Member" },
+  { value: "casual", label: "Casual" },
+]
+
+const inputClassName =
+  "h-8 rounded-md border border-input bg-transparent px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <span className="text-sm font-medium pt-1.5">{label}</span>
+      <div className="flex flex-wrap justify-end gap-1.5 max-w-[70%]">{children}</div>
+    </div>
+  )
+}
+
+// Multi-select as toggle buttons (nothing selected = all)
+function ToggleGroup({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: string; label: string }[]
+  value: string[]
+  onChange: (value: string[]) => void
+}) {
+  return options.map((option) => {
+    const isSelected = value.includes(option.value)
+    return (
+      <Button
+        key={option.value}
+        variant={isSelected ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(isSelected ? value.filter((v) => v !== option.value) : [...value, option.value])}
+      >
+        {option.label}
+      </Button>
+    )
+  })
+}
+
+function RangeInput({
+  value,
+  unit,
+  onChange,
+}: {
+  value: NumberRange
+  unit: string
+  onChange: (value: NumberRange) => void
+}) {
+  const parse = (text: string) => (text === "" || !Number.isFinite(Number(text)) ? null : Number(text))
+  return (
+    <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+      <input
+        type="number"
+        min={0}
+        placeholder="min"
+        value={value.min ?? ""}
+        onChange={(e) => onChange({ ...value, min: parse(e.target.value) })}
+        className={cn(inputClassName, "w-20")}
+      />
+      –
+      <input
+        type="number"
+        min={0}
+        placeholder="max"
+        value={value.max ?? ""}
+        onChange={(e) => onChange({ ...value, max: parse(e.target.value) })}
+        className={cn(inputClassName, "w-20")}
+      />
+      {unit}
+    </span>
+  )
+}
+
+// Names picked from a fixed list (stations, boroughs, neighborhoods), shown as removable chips
+function NameListInput({
+  id,
+  value,
+  options,
+  placeholder,
+  onChange,
+}: {
+  id: string
+  value: string[]
+  options: string[]
+  placeholder: string
+  onChange: (value: string[]) => void
+}) {
+  const [text, setText] = React.useState("")
+  const optionSet = React.useMemo(() => new Set(options), [options])
+
+  const handleChange = (next: string) => {
+    // Picking a suggestion from the datalist sets the full name
+    if (optionSet.has(next) && !value.includes(next)) {
+      onChange([...value, next])
+      setText("")
+    } else {
+      setText(next)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1.5 w-full">
+      <input
+        list={id}
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => handleChange(e.target.value)}
+        className={cn(inputClassName, "w-full")}
+      />
+      <datalist id={id}>
+        {options.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+      {value.length > 0 && (
+        <div className="flex flex-wrap justify-end gap-1">
+          {value.map((name) => (
+            <span key={name} className="flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs">
+              {name}
+              <button aria-label={`Remove ${name}`} onClick={() => onChange(value.filter((v) => v !== name))}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FiltersForm({ initialSpec }: { initialSpec: TripFilterSpec }) {
+  const { applySpec, close } = useFilterStore()
+  const { stations, load: loadStations } = useStationsStore()
+  const [spec, setSpec] = React.useState(initialSpec)
+
+  React.useEffect(() => {
+    loadStations()
+  }, [loadStations])
+
+  const stationNames = React.useMemo(() => stations.map((s) => s.name).sort(), [stations])
+  const areaNames = React.useMemo(
+    () => Array.from(new Set(stations.flatMap((s) => [s.borough, s.neighborhood]))).sort(),
+    [stations]
+  )
+
+  const update = <K extends keyof TripFilterSpec>(key: K, value: TripFilterSpec[K]) =>
+    setSpec((prev) => ({ ...prev, [key]: value }))
+
+  const handleApply = () => {
+    applySpec(spec)
+    close()
+  }
+
+  return (
+    <>
+      <div className="flex flex-col gap-3">
+        <Row label="Bike">
+          <ToggleGroup options={BIKE_TYPES} value={spec.bikeTypes} onChange={(v) => update("bikeTypes", v)} />
+        </Row>
+        <Row label="Rider">
+          <ToggleGroup options={RIDER_TYPES} value={spec.riderTypes} onChange={(v) => update("riderTypes", v)} />
+        </Row>
+        <Row label="Duration">
+          <RangeInput value={spec.durationMinutes} unit="min" onChange={(v) => update("durationMinutes", v)} />
+        </Row>
+        <Row label="Distance">
+          <RangeInput value={spec.distanceKm} unit="km" onChange={(v) => update("distanceKm", v)} />
+        </Row>
+        <Row label="Speed">
+          <RangeInput value={spec.speedKmh} unit="km/h" onChange={(v) => update("speedKmh", v)} />
+        </Row>
+        <Row label="From">
+          <NameListInput
+            id="filter-start-areas"
+            value={spec.startAreas}
+            options={areaNames}
+            placeholder="Borough or neighborhood"
+            onChange={(v) => update("startAreas", v)}
+          />
+          <NameListInput
+            id="filter-start-stations"
+            value={spec.startStations}
+            options={stationNames}
+            placeholder="Station"
+            onChange={(v) => update("startStations", v)}
+          />
+        </Row>
+        <Row label="To">
+          <NameListInput
+            id="filter-end-areas"
+            value={spec.endAreas}
+            options={areaNames}
+            placeholder="Borough or neighborhood"
+            onChange={(v) => update("endAreas", v)}
+          />
+          <NameListInput
+            id="filter-end-stations"
+            value={spec.endStations}
+            options={stationNames}
+            placeholder="Station"
+            onChange={(v) => update("endStations", v)}
+          />
+        </Row>
+      </div>
+      <DialogFooter>
+        <Button variant="outline" size="sm" onClick={() => setSpec(DEFAULT_TRIP_FILTER_SPEC)}>
+          Reset
+        </Button>
+        <Button size="sm" onClick={handleApply}>
+          Apply
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
+
+export function Filters() {
+  const { isOpen, close, spec } = useFilterStore()
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Filters</DialogTitle>
+          <DialogDescription>Only matching rides are shown and counted. Applying reloads from the current time.</DialogDescription>
+        </DialogHeader>
+        {/* Remount on open so edits that weren't applied are discarded */}
+        {isOpen && <FiltersForm initialSpec={spec} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,121 @@
+import { COLORS } from "@/lib/config";
+import { formatDurationMinutes, formatTimeOnly } from "@/lib/format";
+import type { FlowGrouping, OdFlow } from "@/lib/od-flows";
+import { useMapLayersStore } from "@/lib/stores/map-layers-store";
+import type { ProcessedTrip } from "@/lib/trip-types";
+import { X } from "lucide-react";
+import { useMemo } from "react";
+
+// Trips listed for the selected flow (the busiest flows can hold hundreds)
+const MAX_LISTED_TRIPS = 50;
+
+const GROUPING_OPTIONS: Array<{ grouping: FlowGrouping; label: string }> = [
+  { grouping: "station", label: "Stations" },
+  { grouping: "neighborhood", label: "Neighborhoods" },
+];
+
+type FlowPanelProps = {
+  flows: OdFlow[];
+  selectedFlow: OdFlow | null;
+  selectedFlowTrips: ProcessedTrip[];
+  simTimeMs: number;
+  onCloseFlow: () => void;
+  onFollowTrip: (trip: ProcessedTrip) => void;
+};
+
+// Grouping and threshold for the flow arcs, and the trips of the clicked arc
+export function FlowPanel({ flows, selectedFlow, selectedFlowTrips, simTimeMs, onCloseFlow, onFollowTrip }: FlowPanelProps) {
+  const flowGrouping = useMapLayersStore((s) => s.flowGrouping);
+  const flowThreshold = useMapLayersStore((s) => s.flowThreshold);
+  const setFlowGrouping = useMapLayersStore((s) => s.setFlowGrouping);
+  const setFlowThreshold = useMapLayersStore((s) => s.setFlowThreshold);
+
+  const maxTripCount = Math.max(2, flows[0]?.tripIds.length ?? 0);
+  const shownCount = flows.filter((flow) => flow.tripIds.length >= flowThreshold).length;
+
+  // Formatted once per trip list, not every frame
+  const tripRows = useMemo(
+    () =>
+      selectedFlowTrips.slice(0, MAX_LISTED_TRIPS).map((trip) => ({
+        trip,
+        time: formatTimeOnly(trip.realStartedAtMs),
+        duration: formatDurationMinutes(new Date(trip.realStartedAtMs), new Date(trip.realEndedAtMs)),
+        color: trip.bikeType === "electric_bike" ? COLORS.electric : COLORS.classic,
+      })),
+    [selectedFlowTrips]
+  );
+
+  return (
+    <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 w-72 max-w-[calc(100%-1.5rem)] bg-black/45 backdrop-blur-md text-white/90 px-3 py-2 rounded-xl border border-white/10 shadow-[0_0_24px_rgba(0,0,0,0.6)] text-xs">
+      <div className="flex items-center gap-1">
+        {GROUPING_OPTIONS.map(({ grouping, label }) => (
+          <button
+            key={grouping}
+            onClick={() => setFlowGrouping(grouping)}
+            className={`px-2 py-0.5 rounded-full transition-colors outline-none ${
+              flowGrouping === grouping ? "bg-white/15 text-white" : "text-white/60 hover:text-white hover:bg-white/10"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="ml-auto text-white/50 tabular-nums">
+          {shownCount.toLocaleString()} of {flows.length.toLocaleString()}
+        </span>
+      </div>
+
+      <label className="mt-2 flex items-center gap-2">
+        <span className="text-white/60 whitespace-nowrap">Min trips</span>
+        <input
+          type="range"
+          min={1}
+          max={maxTripCount}
+          value={Math.min(flowThreshold, maxTripCount)}
+          onChange={(e) => setFlowThreshold(Number(e.target.value))}
+          className="flex-1 accent-white"
+        />
+        <span className="w-6 text-right tabular-nums">{flowThreshold}</span>
+      </label>
+
+      {selectedFlow && (
+        <div className="mt-2 pt-2 border-t border-white/5">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0 text-white/70">
+              <div className="truncate">{selectedFlow.originName}</div>
+              <div className="text-white/40">to</div>
+              <div className="truncate">{selectedFlow.destinationName}</div>
+            </div>
+            <button onClick={onCloseFlow} title="Close" className="text-white/50 hover:text-white/90 transition-colors">
+              <X className="size-3.5" />
+            </button>
+          </div>
+          <div className="mt-1 text-white/50">
+            {selectedFlow.tripIds.length.toLocaleString()} trip{selectedFlow.tripIds.length !== 1 ? "s" : ""}
+          </div>
+          <div className="mt-1 max-h-40 overflow-y-auto -mx-1">
+            {tripRows.map(({ trip, time, duration, color }) => {
+              // Only rides on the map right now can be followed
+              const isVisible = simTimeMs >= trip.simVisibleStartMs && simTimeMs <= trip.simVisibleEndMs;
+              return (
+                <button
+                  key={trip.id}
+                  onClick={() => onFollowTrip(trip)}
+                  disabled={!isVisible}
+                  title={isVisible ? "Follow this ride" : simTimeMs < trip.simVisibleStartMs ? "Not started yet" : "Ended"}
+                  className="w-full flex items-center gap-2 px-1 py-0.5 rounded hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent outline-none"
+                >
+                  <span className="size-1.5 rounded-full shrink-0" style={{ backgroundColor: `rgb(${color.join(",")})` }} />
+                  <span className="tabular-nums">{time}</span>
+                  <span className="ml-auto text-white/50">{duration}</span>
+                </button>
+              );
+            })}
+            {selectedFlowTrips.length > MAX_LISTED_TRIPS && (
+              <div className="px-1 py-0.5 text-white/40">+{selectedFlowTrips.length - MAX_LISTED_TRIPS} more</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { RENDER_MODES, useMapLayersStore, type RenderMode } from "@/lib/stores/map-layers-store";
+import { Bike, Flame, Hexagon, Spline, type LucideIcon } from "lucide-react";
+import { Kbd } from "./ui/kbd";
+
+const MODE_OPTIONS: Record<RenderMode, { icon: LucideIcon; title: string }> = {
+  bikes: { icon: Bike, title: "Bikes" },
+  heatmap: { icon: Flame, title: "Heatmap of active rides" },
+  hexbin: { icon: Hexagon, title: "Recent departures by area" },
+  flows: { icon: Spline, title: "Flows between origins and destinations" },
+};
+
+// Switches how active rides are drawn - only the layers change, loaded trips are kept
+export function RenderModeControl() {
+  const renderMode = useMapLayersStore((s) => s.renderMode);
+  const setRenderMode = useMapLayersStore((s) => s.setRenderMode);
+
+  const buttonClassName =
+    "flex items-center justify-center size-6 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors outline-none";
+
+  return (
+    <div className="flex items-center justify-between gap-2 bg-black/45 text-white/90 text-sm font-medium pl-1 pr-2.5 py-1 sm:pr-2 sm:py-0.5 rounded-full border border-white/10 backdrop-blur-md shadow-[0_0_20px_rgba(0,0,0,0.6)]">
+      <span className="flex items-center gap-0.5">
+        {RENDER_MODES.map((mode) => {
+          const { icon: Icon, title } = MODE_OPTIONS[mode];
+          return (
+            <button
+              key={mode}
+              onClick={() => setRenderMode(mode)}
+              title={`${title} (M)`}
+              className={`${buttonClassName} ${renderMode === mode ? "text-white bg-white/15" : ""}`}
+            >
+              <Icon className="size-3.5" />
+            </button>
+          );
+        })}
+      </span>
+      <Kbd className="hidden sm:inline-flex bg-zinc-800 text-white/70">M</Kbd>
+    </div>
+  );
+}
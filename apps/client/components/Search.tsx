@@ -4,7 +4,7 @@ import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, C
 import { EnterHint, Kbd } from "@/components/ui/kbd"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { DATA_END_DATE, DATA_START_DATE, REAL_FADE_DURATION_MS } from "@/lib/config"
-import { formatDateTime, formatDateTimeFull, formatDateTimeShort, formatDistance, formatDurationMinutes, formatTimeRange } from "@/lib/format"
+import { formatDateTime, formatDateTimeFull, formatDateTimeShort, formatDistance, formatDurationMinutes, formatMonthYear, formatTimeRange } from "@/lib/format"
 import { useAnimationStore } from "@/lib/stores/animation-store"
 import { usePickerStore } from "@/lib/stores/location-picker-store"
 import { useSearchStore } from "@/lib/stores/search-store"
@@ -62,6 +62,14 @@ export function Search() {
   const { animationStartDate, simCurrentTimeMs } = useAnimationStore()
   const { stations, getStation, load: loadStations } = useStationsStore()
 
+  // Available data range (from the dataset manifest, config range until it loads)
+  const [dataRange, setDataRange] = React.useState({ start: DATA_START_DATE, end: DATA_END_DATE })
+  React.useEffect(() => {
+    duckdbService.getDataRange().then(setDataRange).catch((error) => {
+      console.error("Failed to load data range:", error)
+    })
+  }, [])
+
   // Compute current real time (absolute) for chrono reference
   const realCurrentTimeMs = React.useMemo(() => {
     return new Date(animationStartDate.getTime() + simCurrentTimeMs)
@@ -74,7 +82,7 @@ export function Search() {
   }, [datetimeInput, realCurrentTimeMs])
 
   // Check if parsed date is outside available data range
-  const isDateOutOfRange = !!parsedDate && (parsedDate < DATA_START_DATE || parsedDate > DATA_END_DATE)
+  const isDateOutOfRange = !!parsedDate && (parsedDate < dataRange.start || parsedDate > dataRange.end)
 
   React.useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -366,7 +374,7 @@ export function Search() {
     const { setAnimationStartDate, selectTrip, speedup } = useAnimationStore.getState()
 
     // Start animation at fade-in time (accounting for speedup)
-    const realStartTimeMs = new Date(new Date(trip.startedAt).getTime() - REAL_FADE_DURATION_MS * speedup)
+    const realStartTimeMs = new Date(new Date(trip.startedAt).getTime() - REAL_FADE_DURATION_MS * Math.abs(speedup))
     setAnimationStartDate(realStartTimeMs)
 
     const endStation = getStation(trip.endStationName)
@@ -426,8 +434,8 @@ export function Search() {
         />
         <div className="px-3 py-2 text-sm sm:text-xs text-zinc-500 flex flex-col gap-0.5">
           <span>
-            <span className="hidden sm:inline">Processed <a href="https://citibikenyc.com/" target="_blank" className="underline hover:text-zinc-50 text-zinc-300 font-medium">Citi Bike</a> data spans June 2013 – December 2025.</span>
-            <span className="sm:hidden"><a href="https://citibikenyc.com/" target="_blank" className="underline hover:text-zinc-50 text-zinc-300 font-medium">Citi Bike</a> data spans Jun 2013 – Dec 2025</span>
+            <span className="hidden sm:inline">Processed <a href="https://citibikenyc.com/" target="_blank" className="underline hover:text-zinc-50 text-zinc-300 font-medium">Citi Bike</a> data spans {formatMonthYear(dataRange.start)} – {formatMonthYear(dataRange.end)}.</span>
+            <span className="sm:hidden"><a href="https://citibikenyc.com/" target="_blank" className="underline hover:text-zinc-50 text-zinc-300 font-medium">Citi Bike</a> data spans {formatMonthYear(dataRange.start, "short")} – {formatMonthYear(dataRange.end, "short")}</span>
           </span>
           <span>{'Try "July 4th 2019 at 8pm" or "Fri 4pm"'}</span>
         </div>
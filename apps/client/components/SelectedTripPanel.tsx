@@ -1,8 +1,10 @@
 import { EBike } from "@/components/icons/Ebike";
 import { formatDistance, formatDurationMinutes, formatSpeedMph, formatTimeRange } from "@/lib/format";
 import type { SelectedTripInfo } from "@/lib/stores/animation-store";
-import { Bike } from "lucide-react";
+import { Bike, Check, Link } from "lucide-react";
 import { motion } from "motion/react";
+import { useState } from "react";
+import { getTripPermalinkPath } from "./TripPermalink";
 import { Kbd } from "./ui/kbd";
 
 type SelectedTripPanelProps = {
@@ -11,6 +13,18 @@ type SelectedTripPanelProps = {
 
 export function SelectedTripPanel({ info }: SelectedTripPanelProps) {
   const isElectric = info.bikeType === "electric_bike";
+  const [copied, setCopied] = useState(false);
+
+  const copyPermalink = async () => {
+    const url = new URL(getTripPermalinkPath(info.id, info.startedAt), window.location.origin);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy trip link:", error);
+    }
+  };
 
   return (
     <motion.div
@@ -33,6 +47,13 @@ export function SelectedTripPanel({ info }: SelectedTripPanelProps) {
         <span className="ml-auto text-[10px] text-white/50 font-mono">
           {info.id.slice(-8)}
         </span>
+        <button
+          onClick={copyPermalink}
+          title="Copy link to this ride"
+          className="pointer-events-auto text-white/50 hover:text-white/90 transition-colors"
+        >
+          {copied ? <Check className="size-3.5" /> : <Link className="size-3.5" />}
+        </button>
       </div>
 
       {/* Route */}
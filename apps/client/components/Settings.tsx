@@ -1,11 +1,39 @@
 "use client"
 
+import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { formatBytes } from "@/lib/format"
 import { useSettingsStore } from "@/lib/stores/settings-store"
+import { parquetCache, type ParquetCacheUsage } from "@/services/parquet-cache"
 import React from "react"
 
 export function Settings() {
   const { isOpen, close } = useSettingsStore()
+  const [cacheUsage, setCacheUsage] = React.useState<ParquetCacheUsage | null>(null)
+  const [isClearingCache, setIsClearingCache] = React.useState(false)
+  const [isOfflineDaysEnabled, setIsOfflineDaysEnabled] = React.useState(false)
+
+  // Refresh cache usage each time the dialog opens
+  React.useEffect(() => {
+    if (!isOpen) return
+    parquetCache.getUsage().then(setCacheUsage)
+    setIsOfflineDaysEnabled(parquetCache.isOfflineDaysEnabled())
+  }, [isOpen])
+
+  const handleToggleOfflineDays = () => {
+    parquetCache.setOfflineDaysEnabled(!isOfflineDaysEnabled)
+    setIsOfflineDaysEnabled(!isOfflineDaysEnabled)
+  }
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true)
+    try {
+      await parquetCache.clear()
+      setCacheUsage(await parquetCache.getUsage())
+    } finally {
+      setIsClearingCache(false)
+    }
+  }
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && close()}>
@@ -13,8 +41,34 @@ export function Settings() {
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
         </DialogHeader>
-        <div className="text-sm text-muted-foreground">
-          Settings coming soon.
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-col gap-0.5">
+            <span className="text-sm font-medium">Save days for offline use</span>
+            <span className="text-xs text-muted-foreground">
+              Downloads each day you play in full, on top of what playback reads
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleToggleOfflineDays} aria-pressed={isOfflineDaysEnabled}>
+            {isOfflineDaysEnabled ? "On" : "Off"}
+          </Button>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-col gap-0.5">
+            <span className="text-sm font-medium">Offline cache</span>
+            <span className="text-xs text-muted-foreground">
+              {cacheUsage
+                ? `${formatBytes(cacheUsage.bytes)} of ${formatBytes(cacheUsage.budgetBytes)} · ${cacheUsage.fileCount} file${cacheUsage.fileCount !== 1 ? "s" : ""}`
+                : "Loading..."}
+            </span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClearCache}
+            disabled={isClearingCache || !cacheUsage?.fileCount}
+          >
+            Clear
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,37 @@
+import { formatTimeRange } from "@/lib/format";
+import { useAnimationStore } from "@/lib/stores/animation-store";
+import { AnimatePresence, motion } from "motion/react";
+import { useEffect } from "react";
+
+const NOTICE_DURATION_MS = 8000;
+
+// Shown when rides for part of the timeline failed to load and were skipped, so the gap isn't silent
+export function SkippedRidesNotice() {
+  const skippedRides = useAnimationStore((s) => s.skippedRides);
+
+  useEffect(() => {
+    if (!skippedRides) return;
+    const timer = setTimeout(() => useAnimationStore.getState().setSkippedRides(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [skippedRides]);
+
+  return (
+    <AnimatePresence>
+      {skippedRides && (
+        <motion.div
+          key="skipped-rides"
+          initial={{ opacity: 0, y: -4 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -4 }}
+          transition={{ duration: 0.2, ease: "easeInOut" }}
+          className="mt-1.5 flex items-center gap-1.5 bg-black/45 backdrop-blur-md px-2.5 py-1 rounded-full border border-white/10"
+        >
+          <div className="w-1.5 h-1.5 rounded-full bg-amber-400 shadow-[0_0_6px_2px_rgba(251,191,36,0.4)]" />
+          <span className="text-amber-300/90 text-xs font-medium whitespace-nowrap">
+            Some rides for {formatTimeRange(new Date(skippedRides.realFromMs), new Date(skippedRides.realToMs))} failed to load
+          </span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,78 @@
+import { DEFAULT_SPEEDUP, MAX_SPEEDUP, MIN_SPEEDUP, SPEEDUP_FINE_STEP, SPEEDUP_PRESETS } from "@/lib/config";
+import { useAnimationStore } from "@/lib/stores/animation-store";
+import { Minus, Plus, Rewind } from "lucide-react";
+import { Kbd } from "./ui/kbd";
+
+/**
+ * Next speed when stepping up (direction 1) or down (direction -1).
+ * Coarse steps snap to the next preset; fine steps scale by SPEEDUP_FINE_STEP.
+ * Steps change the magnitude and keep the playback direction.
+ */
+export function stepSpeedup(speedup: number, direction: 1 | -1, fine: boolean): number {
+  const sign = speedup < 0 ? -1 : 1;
+  const magnitude = Math.abs(speedup);
+
+  if (fine) {
+    const scaled = Math.round(direction === 1 ? magnitude * SPEEDUP_FINE_STEP : magnitude / SPEEDUP_FINE_STEP);
+    // Always move by at least 1x so low speeds don't get stuck on rounding
+    const next = scaled === magnitude ? magnitude + direction : scaled;
+    return sign * Math.min(MAX_SPEEDUP, Math.max(MIN_SPEEDUP, next));
+  }
+
+  if (direction === 1) {
+    return sign * (SPEEDUP_PRESETS.find((preset) => preset > magnitude) ?? MAX_SPEEDUP);
+  }
+  return sign * ([...SPEEDUP_PRESETS].reverse().find((preset) => preset < magnitude) ?? MIN_SPEEDUP);
+}
+
+export function SpeedControl() {
+  const speedup = useAnimationStore((s) => s.speedup);
+  const setSpeedup = useAnimationStore((s) => s.setSpeedup);
+  const toggleDirection = useAnimationStore((s) => s.toggleDirection);
+  const isReversed = speedup < 0;
+  const magnitude = Math.abs(speedup);
+
+  const buttonClassName =
+    "flex items-center justify-center size-6 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors outline-none disabled:opacity-40 disabled:hover:bg-transparent";
+
+  return (
+    <div className="flex items-center justify-between gap-2 bg-black/45 text-white/90 text-sm font-medium pl-1 pr-2.5 py-1 sm:pr-2 sm:py-0.5 rounded-full border border-white/10 backdrop-blur-md shadow-[0_0_20px_rgba(0,0,0,0.6)]">
+      <span className="flex items-center gap-0.5">
+        <button
+          onClick={toggleDirection}
+          title={isReversed ? "Play forward (B)" : "Play in reverse (B)"}
+          className={`${buttonClassName} ${isReversed ? "text-white bg-white/15" : ""}`}
+        >
+          <Rewind className="size-3.5" />
+        </button>
+        <button
+          onClick={(e) => setSpeedup(stepSpeedup(speedup, -1, e.shiftKey))}
+          disabled={magnitude <= MIN_SPEEDUP}
+          title="Slower (shift-click for fine steps)"
+          className={buttonClassName}
+        >
+          <Minus className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setSpeedup(isReversed ? -DEFAULT_SPEEDUP : DEFAULT_SPEEDUP)}
+          title="Reset speed"
+          className="min-w-12 text-center tabular-nums outline-none"
+        >
+          {isReversed && "−"}{magnitude.toLocaleString()}×
+        </button>
+        <button
+          onClick={(e) => setSpeedup(stepSpeedup(speedup, 1, e.shiftKey))}
+          disabled={magnitude >= MAX_SPEEDUP}
+          title="Faster (shift-click for fine steps)"
+          className={buttonClassName}
+        >
+          <Plus className="size-3.5" />
+        </button>
+      </span>
+      <span className="hidden sm:inline-flex gap-0.5">
+        <Kbd className="bg-zinc-800 text-white/70">[</Kbd>
+        <Kbd className="bg-zinc-800 text-white/70">]</Kbd>
+      </span>
+    </div>
+  );
+}
@@ -10,9 +10,14 @@ type Props = {
 
 const SLOW_LOADING_THRESHOLD_MS = 5000;
 
+// Below this, less than half the expected batch load time is buffered - playback is about to outrun loading
+const LOW_BUFFER_HEALTH = 0.25;
+
 export function TimeDisplay({ simTimeMs, realWindowStartDate }: Props) {
   const isLoadingTrips = useAnimationStore((s) => s.isLoadingTrips);
   const loadError = useAnimationStore((s) => s.loadError);
+  const isPlaying = useAnimationStore((s) => s.isPlaying);
+  const bufferHealth = useAnimationStore((s) => s.bufferHealth);
   const realDisplayTimeMs = realWindowStartDate.getTime() + simTimeMs;
   const [showSlowLoadingText, setShowSlowLoadingText] = useState(((false)));
 
@@ -28,6 +33,7 @@ export function TimeDisplay({ simTimeMs, realWindowStartDate }: Props) {
   }, [isLoadingTrips]);
 
   const showOverlay = isLoadingTrips || loadError;
+  const showLowBuffer = isPlaying && !showOverlay && bufferHealth < LOW_BUFFER_HEALTH;
 
   return (
     <div className="bg-black/45 backdrop-blur-md px-3 py-1.5 rounded-xl border border-white/10 shadow-[0_0_24px_rgba(0,0,0,0.6)] flex flex-col items-center relative">
@@ -121,6 +127,19 @@ export function TimeDisplay({ simTimeMs, realWindowStartDate }: Props) {
           </motion.div>
         )}
       </AnimatePresence>
+      <AnimatePresence>
+        {showLowBuffer && (
+          <motion.div
+            key="low-buffer"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: [1, 0.4, 1] }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 1.2, repeat: Infinity, ease: "easeInOut" }}
+            title="Playback is outrunning loading - try a lower speed"
+            className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-amber-400 shadow-[0_0_6px_2px_rgba(251,191,36,0.4)]"
+          />
+        )}
+      </AnimatePresence>
       <motion.div
         initial={false}
         animate={{
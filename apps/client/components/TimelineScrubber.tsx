@@ -0,0 +1,148 @@
+import { TIMELINE_BUCKET_MS } from "@/lib/config";
+import { formatTimeOnly, getNycDayEndMs, getNycDayStartMs } from "@/lib/format";
+import { useFilterStore } from "@/lib/stores/filter-store";
+import type { TripFilter } from "@/lib/trip-filters";
+import type { TripCountBucket } from "@/lib/trip-types";
+import { duckdbService } from "@/services/duckdb-service";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+type Props = {
+  simTimeMs: number; // simulation ms from animation start
+  realWindowStartDate: Date; // animation window start date (real time)
+  onSeek: (realTimeMs: number) => void;
+};
+
+const HISTOGRAM_WIDTH = 288; // SVG viewBox units (2 per 10-minute bucket)
+const HISTOGRAM_HEIGHT = 28;
+
+// Day boundaries only change at midnight - avoid recomputing them every frame
+let cachedDay = { startMs: 0, endMs: 0 };
+function getNycDay(ms: number): { startMs: number; endMs: number } {
+  if (ms < cachedDay.startMs || ms >= cachedDay.endMs) {
+    cachedDay = { startMs: getNycDayStartMs(ms), endMs: getNycDayEndMs(ms) };
+  }
+  return cachedDay;
+}
+
+/**
+ * Trips per 10 minutes for the current day (NYC time), with a draggable playhead.
+ * Seeks on release so dragging doesn't trigger a reload per pointer move.
+ */
+export function TimelineScrubber({ simTimeMs, realWindowStartDate, onSeek }: Props) {
+  const realDisplayTimeMs = realWindowStartDate.getTime() + simTimeMs;
+  const { startMs: dayStartMs, endMs: dayEndMs } = getNycDay(realDisplayTimeMs);
+  const dayDurationMs = dayEndMs - dayStartMs;
+
+  // Keyed by day and filter so a stale histogram isn't shown while the next one loads
+  const filter = useFilterStore((s) => s.filter);
+  const [histogram, setHistogram] = useState<{
+    dayStartMs: number;
+    filter: TripFilter;
+    buckets: TripCountBucket[];
+  } | null>(null);
+  const buckets = histogram?.dayStartMs === dayStartMs && histogram.filter === filter ? histogram.buckets : null;
+  const [dragTimeMs, setDragTimeMs] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Load the histogram whenever the day or filter changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistogram = async () => {
+      await duckdbService.init();
+      const result = await duckdbService.getTripCountHistogram({
+        from: new Date(dayStartMs),
+        to: new Date(dayEndMs),
+        bucketMs: TIMELINE_BUCKET_MS,
+        filter,
+      });
+      if (!cancelled) setHistogram({ dayStartMs, filter, buckets: result });
+    };
+
+    loadHistogram().catch((error) => console.error("Failed to load timeline histogram:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [dayStartMs, dayEndMs, filter]);
+
+  const bars = useMemo(() => {
+    if (!buckets) return [];
+    const maxCount = Math.max(1, ...buckets.map((b) => b.count));
+    const barWidth = (TIMELINE_BUCKET_MS / dayDurationMs) * HISTOGRAM_WIDTH;
+    return buckets.map((bucket) => {
+      const height = Math.max(1, (bucket.count / maxCount) * HISTOGRAM_HEIGHT);
+      return {
+        key: bucket.bucketStartMs,
+        x: ((bucket.bucketStartMs - dayStartMs) / dayDurationMs) * HISTOGRAM_WIDTH,
+        y: HISTOGRAM_HEIGHT - height,
+        width: Math.max(0.5, barWidth - 0.5),
+        height,
+      };
+    });
+  }, [buckets, dayStartMs, dayDurationMs]);
+
+  const getTimeAtPointer = (clientX: number): number => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    // Stay inside the current day so the end of the bar doesn't jump to tomorrow
+    return Math.min(dayEndMs - 1000, dayStartMs + fraction * dayDurationMs);
+  };
+
+  const playheadTimeMs = dragTimeMs ?? realDisplayTimeMs;
+  const playheadPercent = ((playheadTimeMs - dayStartMs) / dayDurationMs) * 100;
+
+  return (
+    <div className="mt-2 bg-black/45 backdrop-blur-md px-2 pt-1.5 pb-1 rounded-xl border border-white/10 shadow-[0_0_24px_rgba(0,0,0,0.6)] w-[220px] sm:w-[288px]">
+      <div
+        ref={containerRef}
+        role="slider"
+        aria-label="Timeline"
+        aria-valuemin={dayStartMs}
+        aria-valuemax={dayEndMs}
+        aria-valuenow={Math.round(playheadTimeMs)}
+        aria-valuetext={formatTimeOnly(playheadTimeMs)}
+        className="relative h-7 cursor-pointer touch-none select-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragTimeMs(getTimeAtPointer(e.clientX));
+        }}
+        onPointerMove={(e) => {
+          if (dragTimeMs === null) return;
+          setDragTimeMs(getTimeAtPointer(e.clientX));
+        }}
+        onPointerUp={(e) => {
+          if (dragTimeMs === null) return;
+          setDragTimeMs(null);
+          onSeek(getTimeAtPointer(e.clientX));
+        }}
+        onPointerCancel={() => setDragTimeMs(null)}
+      >
+        <svg
+          viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 w-full h-full"
+        >
+          {bars.map((bar) => (
+            <rect
+              key={bar.key}
+              x={bar.x}
+              y={bar.y}
+              width={bar.width}
+              height={bar.height}
+              className={bar.x <= (playheadPercent / 100) * HISTOGRAM_WIDTH ? "fill-white/45" : "fill-white/20"}
+            />
+          ))}
+        </svg>
+        <div
+          className="absolute inset-y-0 w-px bg-white shadow-[0_0_6px_1px_rgba(255,255,255,0.5)] pointer-events-none"
+          style={{ left: `${playheadPercent}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-[9px] font-mono text-white/40 mt-0.5">
+        <span>12 AM</span>
+        {dragTimeMs !== null && <span className="text-white/80">{formatTimeOnly(dragTimeMs)}</span>}
+        <span>12 AM</span>
+      </div>
+    </div>
+  );
+}
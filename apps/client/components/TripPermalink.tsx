@@ -0,0 +1,109 @@
+"use client";
+
+import { REAL_FADE_DURATION_MS } from "@/lib/config";
+import { useAnimationStore, type SelectedTripInfo } from "@/lib/stores/animation-store";
+import { useStationsStore } from "@/lib/stores/stations-store";
+import type { TripWithRoute } from "@/lib/trip-types";
+import { duckdbService } from "@/services/duckdb-service";
+import { AnimatePresence, motion } from "motion/react";
+import { useEffect, useState } from "react";
+
+/**
+ * Path of the permalink page for a trip.
+ * The start time narrows the search to a couple of day files (without it the page looks the day up first).
+ */
+export function getTripPermalinkPath(id: string, startedAt: Date): string {
+  return `/trip/${encodeURIComponent(id)}?t=${startedAt.getTime()}`;
+}
+
+/**
+ * Selection info for a trip loaded from DuckDB (stations must be loaded).
+ */
+export function getSelectedTripInfo(trip: TripWithRoute): SelectedTripInfo {
+  const { getStation } = useStationsStore.getState();
+  const startStation = getStation(trip.startStationName);
+  const endStation = getStation(trip.endStationName);
+
+  return {
+    id: trip.id,
+    bikeType: trip.bikeType,
+    memberCasual: trip.memberCasual,
+    startStationName: startStation.name,
+    endStationName: endStation.name,
+    startNeighborhood: startStation.neighborhood,
+    endNeighborhood: endStation.neighborhood,
+    startedAt: trip.startedAt,
+    endedAt: trip.endedAt,
+    routeDistance: trip.routeDistance,
+  };
+}
+
+type TripPermalinkProps = {
+  id: string;
+  approxDateMs: number | null;
+};
+
+/**
+ * Loads a trip by ID, starts the animation right before it fades in and selects it.
+ */
+export function TripPermalink({ id, approxDateMs }: TripPermalinkProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTrip = async () => {
+      await duckdbService.init();
+      const [trip] = await Promise.all([
+        duckdbService.getTripById({ id, approxDate: approxDateMs !== null ? new Date(approxDateMs) : undefined }),
+        useStationsStore.getState().load(),
+      ]);
+      if (cancelled) return;
+
+      if (!trip) {
+        console.warn(`[TripPermalink] Trip not found: ${id}`);
+        setError("Ride not found");
+        return;
+      }
+
+      const { setAnimationStartDate, selectTrip, speedup } = useAnimationStore.getState();
+
+      // Start animation at fade-in time (accounting for speedup), same as selecting from search
+      setAnimationStartDate(new Date(trip.startedAt.getTime() - REAL_FADE_DURATION_MS * Math.abs(speedup)));
+
+      // Select the trip - BikeMap will render it once trips load
+      selectTrip({ id: trip.id, info: getSelectedTripInfo(trip) });
+    };
+
+    loadTrip().catch((error) => {
+      console.error(`[TripPermalink] Failed to load trip ${id}:`, error);
+      if (!cancelled) setError("Ride not found");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, approxDateMs]);
+
+  return (
+    <AnimatePresence>
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, filter: "blur(4px)" }}
+          animate={{ opacity: 1, filter: "blur(0px)" }}
+          exit={{ opacity: 0, filter: "blur(4px)" }}
+          transition={{ duration: 0.2, ease: "easeOut" }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-20 bg-black/45 backdrop-blur-md text-white/90 text-sm px-3 py-2 rounded-xl border border-white/10 shadow-[0_0_24px_rgba(0,0,0,0.6)] flex items-center gap-3"
+        >
+          <span>{error}</span>
+          <button
+            onClick={() => setError(null)}
+            className="text-white/50 hover:text-white/90 transition-colors"
+          >
+            Dismiss
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -7,13 +7,33 @@ import { Color, MapViewState } from "@deck.gl/core";
 // Default animation start date for trip data timeframe (NYC time)
 export const DEFAULT_ANIMATION_START_DATE = new Date("2025-01-01T09:41:00-05:00"); // EST
 
-// Valid data range for Citi Bike data (NYC time)
+// Fallback data range for data sources without a manifest.json (NYC time)
 export const DATA_START_DATE = new Date("2013-06-01T00:00:00-04:00"); // EDT
 export const DATA_END_DATE = new Date("2025-12-31T23:59:59-05:00");   // EST
 
 // Default speedup multiplier for animation
 export const DEFAULT_SPEEDUP = 150 * 1;
 
+// Speed presets stepped through with [ and ] (fine steps with { and } multiply by SPEEDUP_FINE_STEP).
+// These are magnitudes - a negative speedup plays in reverse.
+export const SPEEDUP_PRESETS = [1, 10, 30, 60, 150, 300, 600, 1200] as const;
+export const MIN_SPEEDUP = SPEEDUP_PRESETS[0];
+export const MAX_SPEEDUP = SPEEDUP_PRESETS[SPEEDUP_PRESETS.length - 1];
+export const SPEEDUP_FINE_STEP = 1.1;
+
+// =============================================================================
+// Data Source
+// =============================================================================
+
+// Folder containing the daily <YYYY-MM-DD>.parquet files. Accepts an absolute URL (CDN,
+// mirror, local dev server) or a same-origin path like "/parquets".
+// Can be overridden at runtime with the ?source= query param.
+export const DEFAULT_DATA_SOURCE_URL =
+  process.env.NEXT_PUBLIC_DATA_SOURCE_URL ?? "https://cdn.bikemap.nyc/parquets";
+
+// Size budget for day files cached in the browser for offline use (LRU eviction)
+export const PARQUET_CACHE_BUDGET_BYTES = 512 * 1024 * 1024; // 512 MB
+
 // =============================================================================
 // Data Pipeline (batch/chunk sizing) - simulation time
 // =============================================================================
@@ -32,6 +52,57 @@ export const PREFETCH_THRESHOLD_CHUNKS = Math.floor(CHUNKS_PER_BATCH * 0.5);
 // Number of batches to prefetch ahead (for slow connections / high speedup)
 export const NUM_LOOKAHEAD_BATCHES = 2;
 
+// At high speedup, prefetch enough batches to cover this much real playback time (capped)
+export const REAL_PREFETCH_LOOKAHEAD_MS = 20 * 1000;
+export const MAX_LOOKAHEAD_BATCHES = 6;
+
+// Adaptive prefetching: once a batch load (fetch + processing) has been timed, lookahead follows
+// the measured load time instead of the fixed values above.
+export const MIN_LOOKAHEAD_BATCHES = 1;
+// Keep this many times the expected batch load time buffered ahead of the playhead
+export const PREFETCH_SAFETY_FACTOR = 2;
+// When playback outruns loading, fetch up to this many consecutive batches with one query
+export const MAX_BATCHES_PER_QUERY = 4;
+// Weight of the newest sample in the batch load time moving average
+export const LOAD_TIME_SMOOTHING = 0.3;
+
+// Batches kept in the worker behind the playhead, so stepping/playing backwards doesn't refetch
+export const NUM_PAST_BATCHES = 2;
+
+// How long before a time window a trip can start and still be in progress, for days without
+// per-day end times in the manifest (or sources without one). 90 min covers 99.92% of trips
+// (P99.9 is 85 min with speed filters applied). Otherwise backward playback, seeks and reloads all
+// look back as far as the manifest's end times require (see getTripLookbackMs in duckdb-service.ts).
+export const SIM_TRIP_LOOKBACK_MS = 90 * 60 * 1000;
+
+// Longest ride played back. Longer ones are bikes that weren't docked properly (some "ride" for
+// days), so playback queries leave them out and nothing looks back further for rides in progress.
+// build-parquet.ts computes the manifest's per-day end times with the same limit.
+export const MAX_RIDE_DURATION_MS = 4 * 60 * 60 * 1000;
+
+// Decoded routes kept in the trip worker, keyed by station pair (LRU eviction), a busy day has
+// ~50k distinct pairs. Each holds 24 bytes per route point decoded plus its polyline string,
+// several KB for a typical route - the worker reports the total, which counts against the budget.
+export const ROUTE_CACHE_MAX_ENTRIES = 50_000;
+
+// Memory for processed trips (worker batches, its route cache and trips held on the main thread).
+// Beyond it, least recently used batches are evicted from the worker and fetched again if playback
+// returns to them.
+// Mobile Safari kills tabs at much lower usage than desktop browsers.
+export const MEMORY_BUDGET_BYTES = 512 * 1024 * 1024;
+export const MOBILE_MEMORY_BUDGET_BYTES = 160 * 1024 * 1024;
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+// Histogram bucket size for the timeline scrubber (trips per 10 minutes)
+export const TIMELINE_BUCKET_MS = 10 * 60 * 1000;
+
+// Step sizes for the J/L keys (shift for the large step)
+export const SIM_SEEK_STEP_MS = 60 * 1000;
+export const SIM_SEEK_STEP_LARGE_MS = 10 * 60 * 1000;
+
 // =============================================================================
 // Rendering (visual tuning)
 // =============================================================================
@@ -66,6 +137,40 @@ export const INITIAL_VIEW_STATE: MapViewState = {
 export const SIM_GRAPH_WINDOW_SIZE_MS = 3 * 60 * 60 * 1000; // 3-hour rolling window (simulation time)
 export const GRAPH_MIN_SCALE = 100; // Minimum Y-axis scale (avoid jitter)
 
+// =============================================================================
+// Station Activity
+// =============================================================================
+
+export const SIM_STATION_ACTIVITY_WINDOW_MS = 30 * 60 * 1000; // rolling window of departures + arrivals (simulation time)
+export const STATION_ACTIVITY_SAMPLE_INTERVAL_MS = 500; // how often the layer is recomputed (real time)
+export const STATION_ACTIVITY_RADIUS_PER_RIDE = 1.5; // pixels per departure or arrival (sqrt scaled)
+
+// =============================================================================
+// Density Modes
+// =============================================================================
+
+export const DENSITY_SAMPLE_INTERVAL_MS = 250; // how often heatmap positions and hexbin counts are recomputed (real time)
+export const HEATMAP_RADIUS_PIXELS = 30;
+export const SIM_HEXBIN_WINDOW_MS = 15 * 60 * 1000; // departures in the last 15 minutes (simulation time)
+export const HEXBIN_RADIUS_METERS = 300;
+export const HEXBIN_ELEVATION_SCALE = 20; // meters per departure
+
+// =============================================================================
+// Flows
+// =============================================================================
+
+export const FLOW_ARC_WIDTH_PER_TRIP = 1.5; // pixels per trip (sqrt scaled)
+
+// =============================================================================
+// Dock Occupancy
+// =============================================================================
+
+export const DOCK_OCCUPANCY_BUCKET_MS = 5 * 60 * 1000; // departures and arrivals are replayed in 5-minute steps
+// The trip data has no dock counts - stations are assumed to have this many docks (a typical Citi Bike station)...
+export const DOCK_OCCUPANCY_CAPACITY = 30;
+// ...and this share of them holding a bike at the start of the day
+export const DOCK_OCCUPANCY_START_FILL_FRACTION = 0.5;
+
 // =============================================================================
 // Colors (RGB tuples)
 // =============================================================================
@@ -79,6 +184,21 @@ export const COLORS = {
   // Bike head transition colors
   fadeIn: [80, 200, 120], // emerald green
   fadeOut: [247, 118, 142], // red/pink
+
+  // Station activity net flow (mixed by inflow share)
+  stationInflow: [80, 200, 120], // emerald green - more arrivals (filling up)
+  stationOutflow: [247, 118, 142], // red/pink - more departures (draining)
+
+  // Flow arcs (origin to destination)
+  flowOrigin: [80, 200, 120], // emerald green
+  flowDestination: [125, 207, 255], // sky blue
+
+  // Dock occupancy
+  dockEmpty: [247, 118, 142], // red/pink - no bikes to take
+  dockFull: [224, 175, 104], // amber - no docks to return to
 } as const satisfies Record<string, Color>;
 
-export const CAMERA_POLLING_INTERVAL_MS = 250;
\ No newline at end of file
+export const CAMERA_POLLING_INTERVAL_MS = 250;
+
+// How often the shareable URL state (time, speed, view, selection) is written to the address bar
+export const URL_STATE_UPDATE_INTERVAL_MS = 1000;
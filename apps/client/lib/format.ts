@@ -150,6 +150,69 @@ export function formatDateShort(ms: number): string {
   });
 }
 
+// Format month and year (NYC timezone), e.g. "June 2013" or "Jun 2013"
+export function formatMonthYear(date: Date, month: "long" | "short" = "long"): string {
+  return date.toLocaleString("en-US", {
+    month,
+    year: "numeric",
+    timeZone: "America/New_York",
+  });
+}
+
+// =============================================================================
+// NYC Day Boundaries
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const nycPartsFormat = new Intl.DateTimeFormat("en-US", {
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+  hourCycle: "h23",
+  timeZone: "America/New_York",
+});
+
+// Offset of NYC local time from UTC at the given instant (negative, e.g. -5h in winter)
+function getNycOffsetMs(ms: number): number {
+  const parts = nycPartsFormat.formatToParts(new Date(ms));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const localAsUtcMs = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return localAsUtcMs - Math.floor(ms / 1000) * 1000;
+}
+
+// Midnight (NYC time) of the day containing the given instant, as epoch ms
+export function getNycDayStartMs(ms: number): number {
+  const localMs = ms + getNycOffsetMs(ms);
+  const localMidnightMs = localMs - (((localMs % DAY_MS) + DAY_MS) % DAY_MS);
+  // Use the offset at midnight itself (DST switches happen at 2am)
+  return localMidnightMs - getNycOffsetMs(localMidnightMs - getNycOffsetMs(ms));
+}
+
+// Midnight (NYC time) of the following day - days are 23-25 hours long around DST switches
+export function getNycDayEndMs(ms: number): number {
+  return getNycDayStartMs(getNycDayStartMs(ms) + 26 * 60 * 60 * 1000);
+}
+
+// =============================================================================
+// Size Formatting
+// =============================================================================
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"] as const;
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unitIndex]}`;
+}
+
 // =============================================================================
 // Speed Formatting
 // =============================================================================
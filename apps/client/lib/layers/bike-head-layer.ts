@@ -0,0 +1,267 @@
+import { INITIAL_VIEW_STATE } from "@/lib/config";
+import type { ProcessedTrip } from "@/lib/trip-types";
+import {
+  COORDINATE_SYSTEM,
+  type Accessor,
+  type DefaultProps,
+  type LayerContext,
+  type UpdateParameters,
+} from "@deck.gl/core";
+import { IconLayer, type IconLayerProps } from "@deck.gl/layers";
+
+// Head position and bearing of every trip, interpolated on the GPU from a texture of all active paths.
+// Same logic as updateTripState in SimulationEngine (which only runs for the selected trip).
+
+type Texture = ReturnType<LayerContext["device"]["createTexture"]>;
+
+// Paths are stored as float32 offsets from this origin (degrees), which keeps ~1mm precision in NYC
+const PATH_ORIGIN: [number, number, number] = [INITIAL_VIEW_STATE.longitude, INITIAL_VIEW_STATE.latitude, 0];
+
+// Bearing look-ahead (matches updateTripState)
+const LOOK_AHEAD_METERS = 20;
+const MAX_LOOK_AHEAD_STEPS = 64;
+
+const bikeHeadModule = {
+  name: "bikeHead",
+  vs: /* glsl */ `\
+uniform bikeHeadUniforms {
+  float currentTime;
+  float fadeDuration;
+  highp int pathTextureWidth;
+} bikeHead;
+
+// One texel per path vertex: lng offset, lat offset, simulation timestamp, cumulative distance (m)
+uniform highp sampler2D bikeHeadPaths;
+
+vec4 bikeHead_getVertex(int index) {
+  return texelFetch(bikeHeadPaths, ivec2(index % bikeHead.pathTextureWidth, index / bikeHead.pathTextureWidth), 0);
+}
+
+float bikeHead_interpolateAngle(float from, float to, float factor) {
+  float diff = mod(to - from + 180.0, 360.0) - 180.0;
+  return from + diff * factor;
+}
+`,
+  uniformTypes: {
+    currentTime: "f32",
+    fadeDuration: "f32",
+    pathTextureWidth: "i32",
+  },
+} as const;
+
+const computeHeadState = /* glsl */ `
+  int firstVertex = int(instanceVertexRanges.x);
+  int lastVertex = firstVertex + int(instanceVertexRanges.y) - 1;
+  float time = bikeHead.currentTime;
+  float simStart = instanceTripTimes.x;
+  float simEnd = instanceTripTimes.y;
+  vec2 headPosition;
+  float headBearing;
+
+  if (time < simStart) {
+    // Fading in at the start, turning towards the route
+    headPosition = bikeHead_getVertex(firstVertex).xy;
+    float progress = clamp((time - simStart + bikeHead.fadeDuration) / bikeHead.fadeDuration, 0.0, 1.0);
+    headBearing = bikeHead_interpolateAngle(0.0, instanceSegmentBearings.x, progress);
+  } else if (time >= simEnd) {
+    // Fading out at the end
+    headPosition = bikeHead_getVertex(lastVertex).xy;
+    headBearing = instanceSegmentBearings.y;
+  } else {
+    float movingProgress = clamp((time - simStart) / (simEnd - simStart), 0.0, 1.0);
+    float firstTimestamp = bikeHead_getVertex(firstVertex).z;
+    float tripTime = firstTimestamp + movingProgress * (bikeHead_getVertex(lastVertex).z - firstTimestamp);
+
+    // Binary search for the segment containing tripTime
+    int low = firstVertex;
+    int high = lastVertex - 1;
+    while (low < high) {
+      int mid = (low + high + 1) / 2;
+      if (bikeHead_getVertex(mid).z <= tripTime) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    vec4 v0 = bikeHead_getVertex(low);
+    vec4 v1 = bikeHead_getVertex(low + 1);
+    float t = v1.z > v0.z ? clamp((tripTime - v0.z) / (v1.z - v0.z), 0.0, 1.0) : 0.0;
+    headPosition = mix(v0.xy, v1.xy, t);
+
+    // Bearing towards a point ~20m ahead on the route
+    float lookAheadDist = min(mix(v0.w, v1.w, t) + ${LOOK_AHEAD_METERS.toFixed(1)}, bikeHead_getVertex(lastVertex).w);
+    int lookAheadIndex = low;
+    for (int i = 0; i < ${MAX_LOOK_AHEAD_STEPS}; i++) {
+      if (lookAheadIndex >= lastVertex || bikeHead_getVertex(lookAheadIndex + 1).w >= lookAheadDist) break;
+      lookAheadIndex++;
+    }
+    vec4 la0 = bikeHead_getVertex(lookAheadIndex);
+    vec4 la1 = bikeHead_getVertex(min(lookAheadIndex + 1, lastVertex));
+    float laFrac = la1.w > la0.w ? (lookAheadDist - la0.w) / (la1.w - la0.w) : 0.0;
+    vec2 delta = mix(la0.xy, la1.xy, laFrac) - headPosition;
+    headBearing = degrees(atan(delta.x, delta.y));
+  }
+
+  instancePositions = vec3(headPosition, 0.0);
+  instancePositions64Low = vec3(0.0);
+  instanceAngles = -headBearing;
+`;
+
+type _BikeHeadLayerProps = {
+  /** Simulation ms from window start */
+  currentTime: number;
+  /** Sim ms of a fade (scales with speedup) */
+  fadeDuration: number;
+  getTripTimes?: Accessor<ProcessedTrip, [number, number]>;
+  getSegmentBearings?: Accessor<ProcessedTrip, [number, number]>;
+};
+
+export type BikeHeadLayerProps = _BikeHeadLayerProps & IconLayerProps<ProcessedTrip>;
+
+/**
+ * Bike heads (arrow icons) that move along their routes without per-frame JavaScript.
+ * Positions and angles from getPosition/getAngle are ignored.
+ */
+export class BikeHeadLayer<ExtraPropsT extends object = object> extends IconLayer<
+  ProcessedTrip,
+  ExtraPropsT & Required<_BikeHeadLayerProps>
+> {
+  static layerName = "BikeHeadLayer";
+  static defaultProps: DefaultProps<_BikeHeadLayerProps & IconLayerProps> = {
+    currentTime: { type: "number", value: 0 },
+    fadeDuration: { type: "number", value: 1 },
+    getTripTimes: { type: "accessor", value: (d: ProcessedTrip) => [d.simStartTimeMs, d.simEndTimeMs] },
+    getSegmentBearings: {
+      type: "accessor",
+      value: (d: ProcessedTrip) => [d.firstSegmentBearing, d.lastSegmentBearing],
+    },
+    coordinateSystem: COORDINATE_SYSTEM.LNGLAT_OFFSETS,
+    coordinateOrigin: PATH_ORIGIN,
+  };
+
+  declare state: IconLayer["state"] & {
+    pathTexture?: Texture;
+    vertexRanges?: Float32Array;
+  };
+
+  getShaders() {
+    const shaders = super.getShaders();
+
+    // Position and angle are computed in the shader instead of read from attributes
+    const vs = (shaders.vs as string)
+      .replace("in vec3 instancePositions;", "vec3 instancePositions;")
+      .replace("in vec3 instancePositions64Low;", "vec3 instancePositions64Low;")
+      .replace("in float instanceAngles;", "float instanceAngles;")
+      .replace(
+        "in vec2 positions;",
+        "in vec2 positions;\nin vec2 instanceVertexRanges;\nin vec2 instanceTripTimes;\nin vec2 instanceSegmentBearings;"
+      );
+    if (vs.includes("in vec3 instancePositions;") || vs.includes("in float instanceAngles;")) {
+      throw new Error("BikeHeadLayer: unexpected IconLayer vertex shader");
+    }
+
+    return {
+      ...shaders,
+      vs,
+      modules: [...shaders.modules, bikeHeadModule],
+      inject: { ...shaders.inject, "vs:#main-start": computeHeadState },
+    };
+  }
+
+  initializeState() {
+    super.initializeState();
+
+    const attributeManager = this.getAttributeManager()!;
+    attributeManager.remove(["instancePositions", "instanceAngles"]);
+    attributeManager.addInstanced({
+      instanceVertexRanges: {
+        size: 2,
+        noAlloc: true,
+        update: (attribute) => {
+          attribute.value = this.state.vertexRanges ?? new Float32Array(0);
+        },
+      },
+      instanceTripTimes: {
+        size: 2,
+        accessor: "getTripTimes",
+      },
+      instanceSegmentBearings: {
+        size: 2,
+        accessor: "getSegmentBearings",
+      },
+    });
+  }
+
+  updateState(params: UpdateParameters<this>) {
+    super.updateState(params);
+    const { props, oldProps, changeFlags } = params;
+
+    if (changeFlags.dataChanged || props.coordinateOrigin !== oldProps.coordinateOrigin) {
+      this.updatePathTexture();
+    }
+  }
+
+  finalizeState(context: LayerContext) {
+    super.finalizeState(context);
+    this.state.pathTexture?.destroy();
+  }
+
+  draw(params: Parameters<IconLayer["draw"]>[0]) {
+    const { pathTexture, model } = this.state;
+    if (!pathTexture || !model) return;
+
+    model.shaderInputs.setProps({
+      bikeHead: {
+        currentTime: this.props.currentTime,
+        fadeDuration: this.props.fadeDuration,
+        pathTextureWidth: pathTexture.width,
+        bikeHeadPaths: pathTexture,
+      },
+    });
+    super.draw(params);
+  }
+
+  // Pack every path into one float texture (runs when trips are added or dropped, not per frame)
+  private updatePathTexture() {
+    const trips = this.props.data as ProcessedTrip[];
+    const [originLng, originLat] = this.props.coordinateOrigin;
+    const { device } = this.context;
+
+    let vertexCount = 0;
+    for (const trip of trips) {
+      vertexCount += trip.simTimestampsMs.length;
+    }
+
+    const width = Math.max(1, Math.min(vertexCount, device.limits.maxTextureDimension2D));
+    const height = Math.max(1, Math.ceil(vertexCount / width));
+    const texels = new Float32Array(width * height * 4);
+    const vertexRanges = new Float32Array(trips.length * 2);
+
+    let vertexOffset = 0;
+    trips.forEach((trip, i) => {
+      const { positions, simTimestampsMs, cumulativeDistances } = trip;
+      vertexRanges[i * 2] = vertexOffset;
+      vertexRanges[i * 2 + 1] = simTimestampsMs.length;
+      for (let v = 0; v < simTimestampsMs.length; v++) {
+        const texel = (vertexOffset + v) * 4;
+        texels[texel] = positions[v * 2] - originLng;
+        texels[texel + 1] = positions[v * 2 + 1] - originLat;
+        texels[texel + 2] = simTimestampsMs[v];
+        texels[texel + 3] = cumulativeDistances[v];
+      }
+      vertexOffset += simTimestampsMs.length;
+    });
+
+    this.state.pathTexture?.destroy();
+    const pathTexture = device.createTexture({
+      format: "rgba32float",
+      width,
+      height,
+      sampler: { minFilter: "nearest", magFilter: "nearest" },
+    });
+    pathTexture.copyImageData({ data: texels, bytesPerRow: width * 16, rowsPerImage: height });
+
+    this.setState({ pathTexture, vertexRanges });
+  }
+}
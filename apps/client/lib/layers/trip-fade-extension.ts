@@ -0,0 +1,195 @@
+import { LayerExtension, type Accessor, type Color, type Layer } from "@deck.gl/core";
+
+// Fade phases and colors of a trip, evaluated per vertex on the GPU.
+// Mirrors updateTripState/computeTripColors in SimulationEngine (which only runs for the selected trip).
+
+const uniformBlock = /* glsl */ `\
+uniform tripFadeUniforms {
+  float currentTime;
+  float duration;
+  float trailLength;
+  float colorTransition;
+  float maxAlpha;
+  vec3 fadeInColor;
+  vec3 fadeOutColor;
+  vec3 highlightColor;
+} tripFade;
+`;
+
+const vs = /* glsl */ `\
+${uniformBlock}
+in vec3 tripFadeTimes;
+in vec3 tripFadeColors;
+in float tripFadeHighlighted;
+
+out float tripFade_visible;
+
+// rgb + alpha multiplier for the current time, alpha 0 (and invisible) outside the visible window
+vec4 tripFade_getColor() {
+  float time = tripFade.currentTime;
+  float simStart = tripFadeTimes.x;
+  float simEnd = tripFadeTimes.y;
+  float visibleStart = simStart - tripFade.duration;
+  float visibleEnd = simEnd + max(tripFade.duration, tripFade.trailLength);
+
+  if (time < visibleStart || time > visibleEnd) {
+    tripFade_visible = 0.0;
+    return vec4(0.0);
+  }
+  tripFade_visible = 1.0;
+
+  vec3 bikeColor = tripFadeColors / 255.0;
+  vec3 color;
+  float alpha;
+  if (time < simStart) {
+    // Fading in: 100% green
+    color = tripFade.fadeInColor;
+    alpha = (time - visibleStart) / tripFade.duration;
+  } else if (time >= simEnd) {
+    // Fading out: first 25% bike color -> red, then stay red
+    float progress = (time - simEnd) / tripFade.duration;
+    color = mix(bikeColor, tripFade.fadeOutColor, min(1.0, progress / 0.25));
+    alpha = 1.0 - progress;
+  } else {
+    // Moving: green -> bike color
+    color = mix(tripFade.fadeInColor, bikeColor, min(1.0, (time - simStart) / tripFade.colorTransition));
+    alpha = 1.0;
+  }
+
+  if (tripFadeHighlighted > 0.5) {
+    color = tripFade.highlightColor;
+  }
+
+  // Viewer fade: trips that were already visible when loaded (or seeked to) fade in from that time
+  float firstSeen = clamp(tripFadeTimes.z, visibleStart, visibleEnd);
+  float viewerFade = min(1.0, abs(time - firstSeen) / tripFade.duration);
+
+  return vec4(color, clamp(alpha, 0.0, 1.0) * viewerFade * tripFade.maxAlpha);
+}
+`;
+
+const fs = /* glsl */ `\
+${uniformBlock}
+in float tripFade_visible;
+`;
+
+const inject = {
+  "vs:#main-end": /* glsl */ `
+    if (tripFade_visible == 0.0) {
+      gl_Position = vec4(0.0);
+    }
+  `,
+  // Layers should use a white base color, the fade color is multiplied in
+  "vs:DECKGL_FILTER_COLOR": /* glsl */ `
+    vec4 tripFadeColor = tripFade_getColor();
+    color.rgb *= tripFadeColor.rgb;
+    color.a *= tripFadeColor.a;
+  `,
+  "fs:DECKGL_FILTER_COLOR": /* glsl */ `
+    if (tripFade_visible == 0.0) discard;
+  `,
+};
+
+const tripFadeModule = {
+  name: "tripFade",
+  vs,
+  fs,
+  inject,
+  uniformTypes: {
+    currentTime: "f32",
+    duration: "f32",
+    trailLength: "f32",
+    colorTransition: "f32",
+    maxAlpha: "f32",
+    fadeInColor: "vec3<f32>",
+    fadeOutColor: "vec3<f32>",
+    highlightColor: "vec3<f32>",
+  },
+} as const;
+
+export type TripFadeExtensionProps<DataT = unknown> = {
+  /** [simStartTimeMs, simEndTimeMs, simViewerFirstSeenMs] */
+  getFadeTimes?: Accessor<DataT, [number, number, number]>;
+  /** Bike color the trip fades to while moving */
+  getFadeColor?: Accessor<DataT, Color>;
+  /** 1 to draw the trip in fadeHighlightColor */
+  getFadeHighlighted?: Accessor<DataT, number>;
+  /** Simulation ms from window start */
+  fadeCurrentTime?: number;
+  /** Sim ms of a fade (scales with speedup) */
+  fadeDuration?: number;
+  /** Trips stay visible at least this long after ending so the trail can finish */
+  fadeTrailLength?: number;
+  /** Sim ms of the green -> bike color transition after fade-in */
+  fadeColorTransition?: number;
+  /** Alpha at full opacity (0-1) */
+  fadeMaxAlpha?: number;
+  fadeInColor?: Color;
+  fadeOutColor?: Color;
+  fadeHighlightColor?: Color;
+};
+
+const defaultProps = {
+  getFadeTimes: { type: "accessor", value: [0, 0, 0] },
+  getFadeColor: { type: "accessor", value: [255, 255, 255] },
+  getFadeHighlighted: { type: "accessor", value: 0 },
+  fadeCurrentTime: 0,
+  fadeDuration: 1,
+  fadeTrailLength: 0,
+  fadeColorTransition: 1,
+  fadeMaxAlpha: 1,
+  fadeInColor: [255, 255, 255],
+  fadeOutColor: [255, 255, 255],
+  fadeHighlightColor: [255, 255, 255],
+};
+
+const normalizeColor = (color: Color): number[] => [color[0] / 255, color[1] / 255, color[2] / 255];
+
+/**
+ * GPU visibility, fade phases and colors for trip layers (replaces per-frame color accessors).
+ * Per-trip attributes only change when trips are added or removed; time is a uniform.
+ */
+export class TripFadeExtension extends LayerExtension {
+  static defaultProps = defaultProps;
+  static extensionName = "TripFadeExtension";
+
+  getShaders() {
+    return { modules: [tripFadeModule] };
+  }
+
+  initializeState(this: Layer<TripFadeExtensionProps>) {
+    this.getAttributeManager()?.add({
+      tripFadeTimes: {
+        size: 3,
+        stepMode: "dynamic",
+        accessor: "getFadeTimes",
+      },
+      tripFadeColors: {
+        size: 3,
+        stepMode: "dynamic",
+        accessor: "getFadeColor",
+      },
+      tripFadeHighlighted: {
+        size: 1,
+        stepMode: "dynamic",
+        accessor: "getFadeHighlighted",
+      },
+    });
+  }
+
+  draw(this: Layer<Required<TripFadeExtensionProps>>) {
+    const { props } = this;
+    this.setShaderModuleProps({
+      tripFade: {
+        currentTime: props.fadeCurrentTime,
+        duration: props.fadeDuration,
+        trailLength: props.fadeTrailLength,
+        colorTransition: props.fadeColorTransition,
+        maxAlpha: props.fadeMaxAlpha,
+        fadeInColor: normalizeColor(props.fadeInColor),
+        fadeOutColor: normalizeColor(props.fadeOutColor),
+        highlightColor: normalizeColor(props.fadeHighlightColor),
+      },
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { aggregateFlows } from "@/lib/od-flows";
+import type { ProcessedTrip } from "@/lib/trip-types";
+import { FIXTURE_STATIONS, FIXTURE_STATION_BY_NAME } from "@/test/fixtures";
+
+const [CHELSEA_A, CHELSEA_B, MIDTOWN, WILLIAMSBURG] = FIXTURE_STATIONS;
+
+// Flows only read ids and station names
+function trip(id: string, startStationName: string, endStationName: string): ProcessedTrip {
+  return { id, startStationName, endStationName } as ProcessedTrip;
+}
+
+const TRIPS = [
+  trip("1", CHELSEA_A.name, MIDTOWN.name),
+  trip("2", CHELSEA_A.name, MIDTOWN.name),
+  trip("3", CHELSEA_B.name, MIDTOWN.name),
+  trip("4", MIDTOWN.name, WILLIAMSBURG.name),
+  trip("5", CHELSEA_A.name, CHELSEA_B.name),
+  trip("6", "Unknown St", MIDTOWN.name),
+];
+
+describe("aggregateFlows", () => {
+  test("groups by station pair, largest first", () => {
+    const flows = aggregateFlows(TRIPS, "station", FIXTURE_STATION_BY_NAME);
+    expect(flows.map((flow) => [flow.originName, flow.destinationName, flow.tripIds])).toEqual([
+      [CHELSEA_A.name, MIDTOWN.name, ["1", "2"]],
+      [CHELSEA_B.name, MIDTOWN.name, ["3"]],
+      [MIDTOWN.name, WILLIAMSBURG.name, ["4"]],
+      [CHELSEA_A.name, CHELSEA_B.name, ["5"]],
+    ]);
+    expect(flows[0].source).toEqual([CHELSEA_A.longitude, CHELSEA_A.latitude]);
+    expect(flows[0].target).toEqual([MIDTOWN.longitude, MIDTOWN.latitude]);
+  });
+
+  test("groups by neighborhood at the stations' centroid, leaving out flows within one", () => {
+    const flows = aggregateFlows(TRIPS, "neighborhood", FIXTURE_STATION_BY_NAME);
+    expect(flows.map((flow) => [flow.key, flow.tripIds])).toEqual([
+      ["Manhattan/Chelsea -> Manhattan/Midtown", ["1", "2", "3"]],
+      ["Manhattan/Midtown -> Brooklyn/Williamsburg", ["4"]],
+    ]);
+    expect(flows[0].originName).toBe("Chelsea");
+    expect(flows[0].source[0]).toBeCloseTo((CHELSEA_A.longitude + CHELSEA_B.longitude) / 2);
+    expect(flows[0].source[1]).toBeCloseTo((CHELSEA_A.latitude + CHELSEA_B.latitude) / 2);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Station } from "@/lib/stores/stations-store";
+import type { ProcessedTrip } from "@/lib/trip-types";
+
+export type FlowGrouping = "station" | "neighborhood";
+
+// Trips between one origin and one destination (stations or neighborhoods)
+export type OdFlow = {
+  key: string;
+  originName: string;
+  destinationName: string;
+  source: [number, number]; // [lng, lat]
+  target: [number, number];
+  tripIds: string[];
+};
+
+type FlowEndpoint = { key: string; name: string; position: [number, number] };
+
+// Neighborhoods are keyed with their borough (names repeat across boroughs) and placed at their stations' centroid
+function getNeighborhoodEndpoints(stationByName: Map<string, Station>): Map<string, FlowEndpoint> {
+  const sums = new Map<string, { name: string; lng: number; lat: number; count: number }>();
+  for (const station of stationByName.values()) {
+    const key = `${station.borough}/${station.neighborhood}`;
+    const sum = sums.get(key) ?? { name: station.neighborhood, lng: 0, lat: 0, count: 0 };
+    sum.lng += station.longitude;
+    sum.lat += station.latitude;
+    sum.count++;
+    sums.set(key, sum);
+  }
+
+  const endpoints = new Map<string, FlowEndpoint>();
+  for (const [key, { name, lng, lat, count }] of sums) {
+    endpoints.set(key, { key, name, position: [lng / count, lat / count] });
+  }
+  return endpoints;
+}
+
+/**
+ * Group trips by origin and destination, largest flows first.
+ * Trips that start and end in the same place (no arc to draw) or at unknown stations are left out.
+ */
+export function aggregateFlows(
+  trips: Iterable<ProcessedTrip>,
+  grouping: FlowGrouping,
+  stationByName: Map<string, Station>
+): OdFlow[] {
+  const neighborhoods = grouping === "neighborhood" ? getNeighborhoodEndpoints(stationByName) : null;
+  const getEndpoint = (stationName: string): FlowEndpoint | null => {
+    const station = stationByName.get(stationName);
+    if (!station) return null;
+    if (neighborhoods) {
+      return neighborhoods.get(`${station.borough}/${station.neighborhood}`) ?? null;
+    }
+    return { key: station.name, name: station.name, position: [station.longitude, station.latitude] };
+  };
+
+  const flows = new Map<string, OdFlow>();
+  for (const trip of trips) {
+    const origin = getEndpoint(trip.startStationName);
+    const destination = getEndpoint(trip.endStationName);
+    if (!origin || !destination || origin.key === destination.key) continue;
+
+    const key = `${origin.key} -> ${destination.key}`;
+    let flow = flows.get(key);
+    if (!flow) {
+      flow = {
+        key,
+        originName: origin.name,
+        destinationName: destination.name,
+        source: origin.position,
+        target: destination.position,
+        tripIds: [],
+      };
+      flows.set(key, flow);
+    }
+    flow.tripIds.push(trip.id);
+  }
+  return Array.from(flows.values()).sort((a, b) => b.tripIds.length - a.tripIds.length);
+}
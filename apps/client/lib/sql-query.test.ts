@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { SqlQuery, TIMESTAMP_PARAM, TRIP_COLUMNS } from "@/lib/sql-query";
+
+describe("SqlQuery", () => {
+  test("selects all trip columns by default", () => {
+    const { sql, params } = new SqlQuery().from(["2025-06-05.parquet"]).build();
+    expect(sql).toBe(`SELECT ${TRIP_COLUMNS.join(", ")}\nFROM read_parquet(['2025-06-05.parquet'])`);
+    expect(params).toEqual([]);
+  });
+
+  test("ANDs conditions and keeps params in order", () => {
+    const { sql, params } = new SqlQuery()
+      .select(["startStationName", "COUNT(*) AS count"])
+      .from(["2025-06-05.parquet", "2025-06-06.parquet"])
+      .where(`startedAt >= ${TIMESTAMP_PARAM}`, 1000)
+      .where("bikeType IN (?, ?)", "classic_bike", "electric_bike")
+      .groupBy("startStationName")
+      .orderBy("count DESC")
+      .limit(10)
+      .build();
+    expect(sql).toBe(
+      [
+        "SELECT startStationName, COUNT(*) AS count",
+        "FROM read_parquet(['2025-06-05.parquet', '2025-06-06.parquet'])",
+        "WHERE startedAt >= epoch_ms(?::BIGINT)\n  AND bikeType IN (?, ?)",
+        "GROUP BY startStationName",
+        "ORDER BY count DESC",
+        "LIMIT 10",
+      ].join("\n")
+    );
+    expect(params).toEqual([1000, "classic_bike", "electric_bike"]);
+  });
+
+  test("rejects file names that aren't day files or the trip index", () => {
+    expect(() => new SqlQuery().from(["2025-06-05.parquet'; DROP TABLE x; --"])).toThrow("Invalid parquet file name");
+    expect(() => new SqlQuery().from(["../2025-06-05.parquet"])).toThrow("Invalid parquet file name");
+    expect(() => new SqlQuery().from(["../trip-index.parquet"])).toThrow("Invalid parquet file name");
+    expect(() => new SqlQuery().from(["trip-index.parquet"])).not.toThrow();
+  });
+
+  test("checks params against placeholders", () => {
+    expect(() => new SqlQuery().where("id = ?")).toThrow('Expected 1 params for "id = ?", got 0');
+    expect(() => new SqlQuery().where("id = ?", "a", "b")).toThrow();
+  });
+
+  test("rejects invalid limits and queries without files", () => {
+    expect(() => new SqlQuery().limit(-1)).toThrow("Invalid limit: -1");
+    expect(() => new SqlQuery().limit(1.5)).toThrow("Invalid limit: 1.5");
+    expect(() => new SqlQuery().build()).toThrow("Query has no parquet files");
+  });
+
+  test("builds return copies of the params", () => {
+    const query = new SqlQuery().from(["2025-06-05.parquet"]).where("id = ?", "a");
+    query.build().params.push("b");
+    expect(query.build().params).toEqual(["a"]);
+  });
+});
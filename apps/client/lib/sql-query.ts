@@ -0,0 +1,124 @@
+// Small query builder for DuckDB parquet queries.
+//
+// Values are always bound as prepared statement parameters (`?` placeholders).
+// Only things the client controls are spliced into the SQL text: column
+// expressions written in code, and parquet file names validated below.
+
+export type SqlParam = string | number | boolean | null;
+
+export type BuiltQuery = {
+  sql: string;
+  params: SqlParam[];
+};
+
+// Registered day files look like "2025-09-15.parquet", plus the trip index (see build-parquet.ts)
+const PARQUET_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2}|trip-index)\.parquet$/;
+
+// Columns of the trip parquet schema (see packages/processing/README.md)
+export const TRIP_COLUMNS = [
+  "id",
+  "startStationName",
+  "endStationName",
+  "startedAt",
+  "endedAt",
+  "bikeType",
+  "memberCasual",
+  "startLat",
+  "startLng",
+  "endLat",
+  "endLng",
+  "routeGeometry",
+  "routeDistance",
+] as const;
+
+// Placeholder for a timestamp bound as epoch milliseconds
+export const TIMESTAMP_PARAM = "epoch_ms(?::BIGINT)";
+
+export class SqlQuery {
+  private columns: readonly string[] = TRIP_COLUMNS;
+  private files: string[] = [];
+  private conditions: string[] = [];
+  private params: SqlParam[] = [];
+  private groupByExpr: string | null = null;
+  private orderByExpr: string | null = null;
+  private limitCount: number | null = null;
+
+  /**
+   * Select column expressions (defaults to all trip columns)
+   */
+  select(columns: readonly string[]): this {
+    this.columns = columns;
+    return this;
+  }
+
+  /**
+   * Read from registered parquet files.
+   * File names can't be bound as parameters, so they're validated instead.
+   */
+  from(files: string[]): this {
+    for (const file of files) {
+      if (!PARQUET_FILE_PATTERN.test(file)) {
+        throw new Error(`Invalid parquet file name: ${file}`);
+      }
+    }
+    this.files = files;
+    return this;
+  }
+
+  /**
+   * Add a condition (ANDed with the others). Use `?` for each value in `params`.
+   */
+  where(condition: string, ...params: SqlParam[]): this {
+    const placeholderCount = condition.split("?").length - 1;
+    if (placeholderCount !== params.length) {
+      throw new Error(`Expected ${placeholderCount} params for "${condition}", got ${params.length}`);
+    }
+    this.conditions.push(condition);
+    this.params.push(...params);
+    return this;
+  }
+
+  groupBy(expr: string): this {
+    this.groupByExpr = expr;
+    return this;
+  }
+
+  orderBy(expr: string): this {
+    this.orderByExpr = expr;
+    return this;
+  }
+
+  limit(count: number): this {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Invalid limit: ${count}`);
+    }
+    this.limitCount = count;
+    return this;
+  }
+
+  build(): BuiltQuery {
+    if (this.files.length === 0) {
+      throw new Error("Query has no parquet files");
+    }
+
+    const fileList = this.files.map((file) => `'${file}'`).join(", ");
+    const lines = [
+      `SELECT ${this.columns.join(", ")}`,
+      `FROM read_parquet([${fileList}])`,
+    ];
+    if (this.conditions.length > 0) {
+      lines.push(`WHERE ${this.conditions.join("\n  AND ")}`);
+    }
+    if (this.groupByExpr) {
+      lines.push(`GROUP BY ${this.groupByExpr}`);
+    }
+    if (this.orderByExpr) {
+      lines.push(`ORDER BY ${this.orderByExpr}`);
+    }
+    if (this.limitCount !== null) {
+      lines.push(`LIMIT ${this.limitCount}`);
+    }
+
+    return { sql: lines.join("\n"), params: [...this.params] };
+  }
+}
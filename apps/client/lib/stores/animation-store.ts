@@ -1,5 +1,6 @@
 import { create } from "zustand";
-import { DEFAULT_ANIMATION_START_DATE, DEFAULT_SPEEDUP } from "../config";
+import { DEFAULT_ANIMATION_START_DATE, DEFAULT_SPEEDUP, MAX_SPEEDUP, MIN_SPEEDUP } from "../config";
+import type { RealTimeRange } from "../trip-types";
 import { usePickerStore } from "./location-picker-store";
 
 export type SelectedTripInfo = {
@@ -17,9 +18,11 @@ export type SelectedTripInfo = {
 
 type AnimationStore = {
   // Source config only
-  speedup: number
   animationStartDate: Date
 
+  // Playback speed (applied live, doesn't reload trips). Negative plays in reverse.
+  speedup: number
+
   // Playback
   isPlaying: boolean
   simCurrentTimeMs: number // simulation ms from windowStart
@@ -28,6 +31,8 @@ type AnimationStore = {
   // Loading state
   isLoadingTrips: boolean
   loadError: string | null
+  bufferHealth: number // buffered playback vs. expected load time, 1 = healthy (see TripDataService.getBufferHealth)
+  skippedRides: RealTimeRange | null // most recent range whose rides failed to load (shown as a notice)
 
   // Trip selection (shared between Search and BikeMap)
   selectedTripId: string | null
@@ -36,6 +41,7 @@ type AnimationStore = {
 
   // Actions
   setSpeedup: (value: number) => void
+  toggleDirection: () => void
   setAnimationStartDate: (date: Date) => void
   setAnimationStartDateAndPlay: (date: Date) => void
   clearPendingAutoPlay: () => void
@@ -47,6 +53,8 @@ type AnimationStore = {
   selectTrip: (data: { id: string; info?: SelectedTripInfo | null } | null) => void
   setIsLoadingTrips: (loading: boolean) => void
   setLoadError: (error: string | null) => void
+  setBufferHealth: (health: number) => void
+  setSkippedRides: (range: RealTimeRange | null) => void
 }
 
 export const useAnimationStore = create<AnimationStore>((set) => ({
@@ -62,14 +70,21 @@ export const useAnimationStore = create<AnimationStore>((set) => ({
   // Loading state
   isLoadingTrips: true,
   loadError: null,
+  bufferHealth: 1,
+  skippedRides: null,
 
   // Trip selection
   selectedTripId: null,
   selectedTripInfo: null,
   dateSelectionKey: 0,
 
+  // Speed changes keep the current time and playback state
+  setSpeedup: (speedup) => set({
+    speedup: Math.sign(speedup || 1) * Math.min(MAX_SPEEDUP, Math.max(MIN_SPEEDUP, Math.abs(speedup))),
+  }),
+  toggleDirection: () => set((state) => ({ speedup: -state.speedup })),
+
   // Config actions (reset playback when config changes)
-  setSpeedup: (speedup) => set({ speedup, isPlaying: false, simCurrentTimeMs: 0 }),
   setAnimationStartDate: (animationStartDate) => set((state) => ({
     animationStartDate,
     isPlaying: false,
@@ -107,4 +122,6 @@ export const useAnimationStore = create<AnimationStore>((set) => ({
   // Loading state
   setIsLoadingTrips: (isLoadingTrips) => set({ isLoadingTrips }),
   setLoadError: (loadError) => set({ loadError }),
+  setBufferHealth: (bufferHealth) => set({ bufferHealth }),
+  setSkippedRides: (skippedRides) => set({ skippedRides }),
 }))
@@ -0,0 +1,16 @@
+import { create } from "zustand"
+import type { MemoryUsage } from "@/services/batch-memory"
+
+type DebugState = {
+  isOpen: boolean
+  memoryUsage: MemoryUsage | null // reported by the simulation engine on each chunk
+  toggle: () => void
+  setMemoryUsage: (usage: MemoryUsage | null) => void
+}
+
+export const useDebugStore = create<DebugState>((set) => ({
+  isOpen: false,
+  memoryUsage: null,
+  toggle: () => set((state) => ({ isOpen: !state.isOpen })),
+  setMemoryUsage: (memoryUsage) => set({ memoryUsage }),
+}))
@@ -0,0 +1,56 @@
+import { create } from "zustand"
+import {
+  DEFAULT_TRIP_FILTER,
+  DEFAULT_TRIP_FILTER_SPEC,
+  hasStationCriteria,
+  resolveTripFilter,
+  type TripFilter,
+  type TripFilterSpec,
+} from "../trip-filters"
+import { useAnimationStore } from "./animation-store"
+import { useStationsStore } from "./stations-store"
+
+type FilterState = {
+  isOpen: boolean
+  spec: TripFilterSpec // as edited in the filter panel
+  filter: TripFilter // spec resolved against the station list, used by the data pipeline
+  open: () => void
+  close: () => void
+  toggle: () => void
+  applySpec: (spec: TripFilterSpec) => void
+}
+
+// Loaded trips were filtered by the worker and in DuckDB, so trips reload from the current time
+function reloadTrips() {
+  const { animationStartDate, simCurrentTimeMs, setAnimationStartDateAndPlay } = useAnimationStore.getState()
+  setAnimationStartDateAndPlay(new Date(animationStartDate.getTime() + simCurrentTimeMs))
+}
+
+export const useFilterStore = create<FilterState>((set) => ({
+  isOpen: false,
+  spec: DEFAULT_TRIP_FILTER_SPEC,
+  filter: DEFAULT_TRIP_FILTER,
+  open: () => set({ isOpen: true }),
+  close: () => set({ isOpen: false }),
+  toggle: () => set((state) => ({ isOpen: !state.isOpen })),
+  applySpec: (spec) => {
+    const { stations, load } = useStationsStore.getState()
+    set({ spec, filter: resolveTripFilter(spec, stations) })
+    reloadTrips()
+    // Areas and stations resolve to nothing until the list loads (e.g. filters restored from the URL)
+    if (hasStationCriteria(spec) && stations.length === 0) {
+      load()
+    }
+  },
+}))
+
+// Resolve station criteria again once the station list arrives
+useStationsStore.subscribe((state, prevState) => {
+  if (state.stations === prevState.stations) return
+  const { spec, filter } = useFilterStore.getState()
+  if (!hasStationCriteria(spec)) return
+  const resolved = resolveTripFilter(spec, state.stations)
+  if (JSON.stringify(resolved) === JSON.stringify(filter)) return
+  useFilterStore.setState({ filter: resolved })
+  reloadTrips()
+})
@@ -0,0 +1,40 @@
+import { create } from "zustand"
+import type { FlowGrouping } from "@/lib/od-flows"
+
+// How active rides are drawn: individual bikes, a heatmap of their positions, hexagons of recent departures,
+// or arcs between origins and destinations
+export type RenderMode = "bikes" | "heatmap" | "hexbin" | "flows"
+
+export const RENDER_MODES: RenderMode[] = ["bikes", "heatmap", "hexbin", "flows"]
+
+// Optional layers drawn over the bikes during playback
+type MapLayersState = {
+  renderMode: RenderMode
+  showStationActivity: boolean
+  showDockOccupancy: boolean
+  flowGrouping: FlowGrouping
+  flowThreshold: number // flows with fewer trips are hidden
+  setRenderMode: (mode: RenderMode) => void
+  cycleRenderMode: () => void
+  toggleStationActivity: () => void
+  toggleDockOccupancy: () => void
+  setFlowGrouping: (grouping: FlowGrouping) => void
+  setFlowThreshold: (threshold: number) => void
+}
+
+export const useMapLayersStore = create<MapLayersState>((set) => ({
+  renderMode: "bikes",
+  showStationActivity: false,
+  showDockOccupancy: false,
+  flowGrouping: "station",
+  flowThreshold: 2,
+  setRenderMode: (renderMode) => set({ renderMode }),
+  cycleRenderMode: () =>
+    set((state) => ({
+      renderMode: RENDER_MODES[(RENDER_MODES.indexOf(state.renderMode) + 1) % RENDER_MODES.length],
+    })),
+  toggleStationActivity: () => set((state) => ({ showStationActivity: !state.showStationActivity })),
+  toggleDockOccupancy: () => set((state) => ({ showDockOccupancy: !state.showDockOccupancy })),
+  setFlowGrouping: (flowGrouping) => set({ flowGrouping }),
+  setFlowThreshold: (flowThreshold) => set({ flowThreshold }),
+}))
@@ -17,19 +17,24 @@ type StationsState = {
   getStation: (name: string) => Station
 }
 
+// Shared by every caller, so each can wait for the list (not just the first)
+let loadPromise: Promise<void> | null = null
+
 export const useStationsStore = create<StationsState>((set, get) => ({
   stations: [],
   stationByName: new Map(),
   isLoading: false,
-  load: async () => {
-    if (get().stations.length > 0 || get().isLoading) return
-    set({ isLoading: true })
-    const stations: Station[] = await fetch("/stations.json").then((r) => r.json())
-    const stationByName = new Map<string, Station>()
-    for (const station of stations) {
-      stationByName.set(station.name, station)
-    }
-    set({ stations, stationByName, isLoading: false })
+  load: () => {
+    loadPromise ??= (async () => {
+      set({ isLoading: true })
+      const stations: Station[] = await fetch("/stations.json").then((r) => r.json())
+      const stationByName = new Map<string, Station>()
+      for (const station of stations) {
+        stationByName.set(station.name, station)
+      }
+      set({ stations, stationByName, isLoading: false })
+    })()
+    return loadPromise
   },
   // Primary lookup by name (station names are unique)
   getStation: (name: string) => {
@@ -0,0 +1,184 @@
+// Flat typed-array encoding of trips for worker -> main thread transfer and deck.gl binary attributes
+
+import type { PreparedTrip, ProcessedTrip, TripBuffers } from "./trip-types";
+
+const METADATA_FIELDS_PER_TRIP = 4;
+
+/**
+ * Pack trips into flat typed arrays (worker side).
+ * Strings that repeat across trips (bike type, stations) are stored once and referenced by index.
+ */
+export function packTrips(trips: PreparedTrip[]): TripBuffers {
+  const tripCount = trips.length;
+
+  let vertexCount = 0;
+  for (const trip of trips) {
+    vertexCount += trip.simTimestampsMs.length;
+  }
+
+  const buffers: TripBuffers = {
+    tripCount,
+    ids: new Array<string>(tripCount),
+    pathStartIndices: new Uint32Array(tripCount + 1),
+    positions: new Float64Array(vertexCount * 2),
+    simTimestampsMs: new Float32Array(vertexCount),
+    cumulativeDistances: new Float32Array(vertexCount),
+    simStartTimeMs: new Float64Array(tripCount),
+    simEndTimeMs: new Float64Array(tripCount),
+    simVisibleStartMs: new Float64Array(tripCount),
+    simFadeInEndMs: new Float64Array(tripCount),
+    simVisibleEndMs: new Float64Array(tripCount),
+    firstSegmentBearing: new Float32Array(tripCount),
+    lastSegmentBearing: new Float32Array(tripCount),
+    realStartedAtMs: new Float64Array(tripCount),
+    realEndedAtMs: new Float64Array(tripCount),
+    routeDistance: new Float64Array(tripCount),
+    metadataIndices: new Uint32Array(tripCount * METADATA_FIELDS_PER_TRIP),
+    strings: [],
+  };
+
+  const stringIndices = new Map<string, number>();
+  const getStringIndex = (value: string): number => {
+    let index = stringIndices.get(value);
+    if (index === undefined) {
+      index = buffers.strings.length;
+      buffers.strings.push(value);
+      stringIndices.set(value, index);
+    }
+    return index;
+  };
+
+  let vertexOffset = 0;
+  trips.forEach((trip, i) => {
+    buffers.ids[i] = trip.id;
+    buffers.pathStartIndices[i] = vertexOffset;
+    buffers.positions.set(trip.positions, vertexOffset * 2);
+    buffers.simTimestampsMs.set(trip.simTimestampsMs, vertexOffset);
+    buffers.cumulativeDistances.set(trip.cumulativeDistances, vertexOffset);
+    vertexOffset += trip.simTimestampsMs.length;
+
+    buffers.simStartTimeMs[i] = trip.simStartTimeMs;
+    buffers.simEndTimeMs[i] = trip.simEndTimeMs;
+    buffers.simVisibleStartMs[i] = trip.simVisibleStartMs;
+    buffers.simFadeInEndMs[i] = trip.simFadeInEndMs;
+    buffers.simVisibleEndMs[i] = trip.simVisibleEndMs;
+    buffers.firstSegmentBearing[i] = trip.firstSegmentBearing;
+    buffers.lastSegmentBearing[i] = trip.lastSegmentBearing;
+    buffers.realStartedAtMs[i] = trip.realStartedAtMs;
+    buffers.realEndedAtMs[i] = trip.realEndedAtMs;
+    buffers.routeDistance[i] = trip.routeDistance ?? NaN;
+
+    const metadataOffset = i * METADATA_FIELDS_PER_TRIP;
+    buffers.metadataIndices[metadataOffset] = getStringIndex(trip.bikeType);
+    buffers.metadataIndices[metadataOffset + 1] = getStringIndex(trip.memberCasual);
+    buffers.metadataIndices[metadataOffset + 2] = getStringIndex(trip.startStationName);
+    buffers.metadataIndices[metadataOffset + 3] = getStringIndex(trip.endStationName);
+  });
+  buffers.pathStartIndices[tripCount] = vertexOffset;
+
+  return buffers;
+}
+
+/**
+ * The ArrayBuffers backing packed trips, for postMessage's transfer list.
+ */
+export function getTripBuffersTransferables(buffers: TripBuffers): ArrayBuffer[] {
+  const transferables: ArrayBuffer[] = [];
+  for (const value of Object.values(buffers)) {
+    if (ArrayBuffer.isView(value)) {
+      transferables.push(value.buffer as ArrayBuffer);
+    }
+  }
+  return transferables;
+}
+
+/**
+ * Unpack transferred buffers into trips (main thread side).
+ * Per-vertex arrays are views, not copies - a chunk's buffers are freed once all its trips are dropped.
+ */
+export function unpackTrips(buffers: TripBuffers): ProcessedTrip[] {
+  const { pathStartIndices, metadataIndices, strings } = buffers;
+  const trips = new Array<ProcessedTrip>(buffers.tripCount);
+
+  for (let i = 0; i < buffers.tripCount; i++) {
+    const vertexStart = pathStartIndices[i];
+    const vertexEnd = pathStartIndices[i + 1];
+    const metadataOffset = i * METADATA_FIELDS_PER_TRIP;
+    const routeDistance = buffers.routeDistance[i];
+
+    trips[i] = {
+      id: buffers.ids[i],
+      positions: buffers.positions.subarray(vertexStart * 2, vertexEnd * 2),
+      simTimestampsMs: buffers.simTimestampsMs.subarray(vertexStart, vertexEnd),
+      cumulativeDistances: buffers.cumulativeDistances.subarray(vertexStart, vertexEnd),
+      bikeType: strings[metadataIndices[metadataOffset]],
+      simStartTimeMs: buffers.simStartTimeMs[i],
+      simEndTimeMs: buffers.simEndTimeMs[i],
+      simVisibleStartMs: buffers.simVisibleStartMs[i],
+      simFadeInEndMs: buffers.simFadeInEndMs[i],
+      simVisibleEndMs: buffers.simVisibleEndMs[i],
+      firstSegmentBearing: buffers.firstSegmentBearing[i],
+      lastSegmentBearing: buffers.lastSegmentBearing[i],
+      memberCasual: strings[metadataIndices[metadataOffset + 1]],
+      startStationName: strings[metadataIndices[metadataOffset + 2]],
+      endStationName: strings[metadataIndices[metadataOffset + 3]],
+      realStartedAtMs: buffers.realStartedAtMs[i],
+      realEndedAtMs: buffers.realEndedAtMs[i],
+      routeDistance: Number.isNaN(routeDistance) ? null : routeDistance,
+      lastSegmentIndex: 0,
+      // Mutable state - updated by the main thread each frame
+      currentPosition: [0, 0],
+      currentBearing: 0,
+      currentPhase: "fading-in",
+      currentPhaseProgress: 0,
+      isVisible: false,
+      currentHeadColor: [0, 0, 0, 0],
+      currentPathColor: [0, 0, 0, 0],
+      simViewerFirstSeenMs: null,
+    };
+  }
+
+  return trips;
+}
+
+// deck.gl binary data for path layers: one flat buffer per attribute, trips delimited by startIndices
+export type TripPathData = {
+  length: number;
+  startIndices: Uint32Array;
+  attributes: {
+    getPath: { value: Float64Array; size: 2 };
+    getTimestamps: { value: Float32Array; size: 1 };
+  };
+};
+
+/**
+ * Concatenate the paths of active trips into deck.gl binary attributes.
+ * Runs when the set of active trips changes (once per chunk), not per frame.
+ */
+export function createTripPathData(trips: ProcessedTrip[]): TripPathData {
+  let vertexCount = 0;
+  for (const trip of trips) {
+    vertexCount += trip.simTimestampsMs.length;
+  }
+
+  const startIndices = new Uint32Array(trips.length);
+  const positions = new Float64Array(vertexCount * 2);
+  const timestamps = new Float32Array(vertexCount);
+
+  let vertexOffset = 0;
+  trips.forEach((trip, i) => {
+    startIndices[i] = vertexOffset;
+    positions.set(trip.positions, vertexOffset * 2);
+    timestamps.set(trip.simTimestampsMs, vertexOffset);
+    vertexOffset += trip.simTimestampsMs.length;
+  });
+
+  return {
+    length: trips.length,
+    startIndices,
+    attributes: {
+      getPath: { value: positions, size: 2 },
+      getTimestamps: { value: timestamps, size: 1 },
+    },
+  };
+}
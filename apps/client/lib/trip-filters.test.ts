@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { SqlQuery } from "@/lib/sql-query";
+import {
+  DEFAULT_TRIP_FILTER,
+  DEFAULT_TRIP_FILTER_SPEC,
+  filterTrips,
+  getTripFilterSqlConditions,
+  resolveTripFilter,
+  type TripFilter,
+} from "@/lib/trip-filters";
+import type { TripWithRoute } from "@/lib/trip-types";
+import {
+  ANY_TRIP_FILTER,
+  FIXTURE_STATIONS,
+  createFixtureDataset,
+  makeTrip,
+  type FixtureDataset,
+} from "@/test/fixtures";
+
+const [CHELSEA_A, CHELSEA_B, MIDTOWN, WILLIAMSBURG] = FIXTURE_STATIONS;
+
+// 2 km each: 12 min = 10 km/h, 2 min = 60 km/h, 90 min = 1.3 km/h, 60 min = 2 km/h, 3.75 min = 32 km/h
+const TRIPS: TripWithRoute[] = [
+  makeTrip("classic", "2025-06-05T12:00:00Z"),
+  makeTrip("electric-casual", "2025-06-05T12:01:00Z", 12, { bikeType: "electric_bike", memberCasual: "casual" }),
+  makeTrip("to-midtown", "2025-06-05T12:02:00Z", 20, { endStationName: MIDTOWN.name, routeDistance: 4000 }),
+  makeTrip("from-williamsburg", "2025-06-05T12:03:00Z", 30, {
+    startStationName: WILLIAMSBURG.name,
+    routeDistance: 6000,
+  }),
+  makeTrip("too-fast", "2025-06-05T12:04:00Z", 2),
+  makeTrip("too-slow", "2025-06-05T12:05:00Z", 90),
+  makeTrip("no-route", "2025-06-05T12:06:00Z", 12, { routeGeometry: null }),
+  makeTrip("no-distance", "2025-06-05T12:07:00Z", 12, { routeDistance: null }),
+  makeTrip("same-station", "2025-06-05T12:08:00Z", 12, { endStationName: CHELSEA_A.name }),
+  makeTrip("min-speed", "2025-06-05T12:09:00Z", 60),
+  makeTrip("max-speed", "2025-06-05T12:10:00Z", 3.75),
+  makeTrip("no-duration", "2025-06-05T12:11:00Z", 0),
+];
+
+function ids(trips: TripWithRoute[]): string[] {
+  return trips.map((trip) => trip.id);
+}
+
+function filterOf(overrides: Partial<TripFilter>): TripFilter {
+  return { ...ANY_TRIP_FILTER, ...overrides };
+}
+
+describe("resolveTripFilter", () => {
+  test("converts units and resolves areas to station names", () => {
+    const filter = resolveTripFilter(
+      {
+        ...DEFAULT_TRIP_FILTER_SPEC,
+        durationMinutes: { min: 5, max: null },
+        distanceKm: { min: null, max: 3 },
+        startAreas: ["Chelsea"],
+        endStations: [MIDTOWN.name],
+      },
+      FIXTURE_STATIONS
+    );
+    expect(filter.durationMs).toEqual({ min: 5 * 60 * 1000, max: null });
+    expect(filter.distanceMeters).toEqual({ min: null, max: 3000 });
+    expect(filter.startStationNames).toEqual([CHELSEA_A.name, CHELSEA_B.name]);
+    expect(filter.endStationNames).toEqual([MIDTOWN.name]);
+  });
+
+  test("matches no stations before the station list loads", () => {
+    const filter = resolveTripFilter({ ...DEFAULT_TRIP_FILTER_SPEC, startAreas: ["Chelsea"] }, []);
+    expect(filter.startStationNames).toEqual([]);
+    expect(filter.endStationNames).toBeNull();
+  });
+});
+
+describe("filterTrips", () => {
+  test("drops trips that can't be drawn and speeds outside the defaults", () => {
+    expect(ids(filterTrips(TRIPS))).toEqual(["classic", "electric-casual", "to-midtown", "from-williamsburg"]);
+    expect(ids(filterTrips(TRIPS, ANY_TRIP_FILTER))).toEqual([
+      "classic",
+      "electric-casual",
+      "to-midtown",
+      "from-williamsburg",
+      "too-fast",
+      "too-slow",
+      "min-speed",
+      "max-speed",
+      "no-duration",
+    ]);
+  });
+
+  test("matches bike and rider types", () => {
+    expect(ids(filterTrips(TRIPS, filterOf({ bikeTypes: ["electric_bike"] })))).toEqual(["electric-casual"]);
+    expect(ids(filterTrips(TRIPS, filterOf({ riderTypes: ["member"], durationMs: { min: null, max: 15 * 60 * 1000 } }))))
+      .toEqual(["classic", "too-fast", "max-speed", "no-duration"]);
+  });
+
+  test("bounds are inclusive", () => {
+    const filter = filterOf({ distanceMeters: { min: 4000, max: 6000 } });
+    expect(ids(filterTrips(TRIPS, filter))).toEqual(["to-midtown", "from-williamsburg"]);
+  });
+
+  test("speed bounds are exclusive, and any speed bound drops trips without a duration", () => {
+    expect(ids(filterTrips(TRIPS, filterOf({ speedKmh: { min: 2, max: null } })))).not.toContain("min-speed");
+    expect(ids(filterTrips(TRIPS, filterOf({ speedKmh: { min: null, max: 32 } })))).not.toContain("max-speed");
+    expect(ids(filterTrips(TRIPS, filterOf({ speedKmh: { min: 1, max: null } })))).not.toContain("no-duration");
+  });
+
+  test("station lists match by name, and an empty list matches nothing", () => {
+    expect(ids(filterTrips(TRIPS, filterOf({ startStationNames: [WILLIAMSBURG.name] })))).toEqual(["from-williamsburg"]);
+    expect(ids(filterTrips(TRIPS, filterOf({ endStationNames: [MIDTOWN.name] })))).toEqual(["to-midtown"]);
+    expect(filterTrips(TRIPS, filterOf({ startStationNames: [] }))).toEqual([]);
+  });
+});
+
+describe("getTripFilterSqlConditions", () => {
+  test("only has the rendering conditions without criteria", () => {
+    const conditions = getTripFilterSqlConditions(ANY_TRIP_FILTER);
+    expect(conditions.map((c) => c.condition)).toEqual([
+      "routeGeometry IS NOT NULL",
+      "startStationName <> endStationName",
+      "routeDistance > 0",
+    ]);
+  });
+
+  test("binds every value as a parameter", () => {
+    const conditions = getTripFilterSqlConditions(
+      filterOf({ bikeTypes: ["classic_bike", "electric_bike"], durationMs: { min: 60_000, max: null } })
+    );
+    expect(conditions).toContainEqual({ condition: "bikeType IN (?, ?)", params: ["classic_bike", "electric_bike"] });
+    expect(conditions).toContainEqual({ condition: "(epoch_ms(endedAt) - epoch_ms(startedAt)) >= ?", params: [60_000] });
+  });
+
+  test("an empty station list is FALSE, a long one is left to the worker", () => {
+    const empty = getTripFilterSqlConditions(filterOf({ endStationNames: [] }));
+    expect(empty).toContainEqual({ condition: "FALSE", params: [] });
+
+    const names = Array.from({ length: 501 }, (_, i) => `Station ${i}`);
+    const long = getTripFilterSqlConditions(filterOf({ startStationNames: names }));
+    expect(long.some((c) => c.condition.startsWith("startStationName IN"))).toBe(false);
+  });
+});
+
+describe("SQL conditions on fixture days", () => {
+  let fixture: FixtureDataset;
+
+  beforeAll(async () => {
+    fixture = await createFixtureDataset(TRIPS);
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  async function queryIds(filter: TripFilter): Promise<string[]> {
+    const query = new SqlQuery().from(["2025-06-05.parquet"]).orderBy("startedAt");
+    for (const { condition, params } of getTripFilterSqlConditions(filter)) {
+      query.where(condition, ...params);
+    }
+    return ids(await fixture.query(query));
+  }
+
+  const filters: Array<[string, TripFilter]> = [
+    ["default", DEFAULT_TRIP_FILTER],
+    ["any", ANY_TRIP_FILTER],
+    ["electric", filterOf({ bikeTypes: ["electric_bike"] })],
+    ["duration and distance", filterOf({ durationMs: { min: 15 * 60 * 1000, max: null }, distanceMeters: { min: null, max: 5000 } })],
+    ["stations", filterOf({ startStationNames: [CHELSEA_A.name], endStationNames: [MIDTOWN.name, CHELSEA_B.name] })],
+    ["no stations", filterOf({ startStationNames: [] })],
+    ["speed at the bounds", filterOf({ speedKmh: { min: 2, max: 32 } })],
+    ["minimum speed only", filterOf({ speedKmh: { min: 1, max: null } })],
+  ];
+
+  for (const [name, filter] of filters) {
+    test(`DuckDB and the worker agree (${name})`, async () => {
+      expect(await queryIds(filter)).toEqual(ids(filterTrips(TRIPS, filter)));
+    });
+  }
+});
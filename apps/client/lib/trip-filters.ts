@@ -1,15 +1,134 @@
+import type { Station } from "./stores/stations-store";
 import type { TripWithRoute } from "./trip-types";
 
+// Inclusive bounds (exclusive for speed), null = unbounded
+export type NumberRange = {
+  min: number | null;
+  max: number | null;
+};
+
+/**
+ * Which trips to show, as edited in the filter panel. Every criterion must match;
+ * empty lists and null bounds don't filter.
+ */
+export type TripFilterSpec = {
+  bikeTypes: string[]; // "classic_bike" | "electric_bike"
+  riderTypes: string[]; // memberCasual: "member" | "casual"
+  durationMinutes: NumberRange;
+  distanceKm: NumberRange; // route distance
+  speedKmh: NumberRange; // route distance / duration, exclusive bounds
+  startAreas: string[]; // borough or neighborhood names
+  endAreas: string[];
+  startStations: string[]; // station names
+  endStations: string[];
+};
+
+// Speeds outside 2-32 km/h (1.2-20 mph) are almost always data errors (docks not
+// registering a return, or route distance far off the path actually ridden)
+export const DEFAULT_TRIP_FILTER_SPEC: TripFilterSpec = {
+  bikeTypes: [],
+  riderTypes: [],
+  durationMinutes: { min: null, max: null },
+  distanceKm: { min: null, max: null },
+  speedKmh: { min: 2, max: 32 },
+  startAreas: [],
+  endAreas: [],
+  startStations: [],
+  endStations: [],
+};
+
+/**
+ * A filter spec with areas and stations resolved to station names, so it can be
+ * evaluated without the station list (in the worker and in SQL).
+ */
+export type TripFilter = {
+  bikeTypes: string[];
+  riderTypes: string[];
+  durationMs: NumberRange;
+  distanceMeters: NumberRange;
+  speedKmh: NumberRange;
+  startStationNames: string[] | null; // null = any station, [] = no station matched the spec (no trips)
+  endStationNames: string[] | null;
+};
+
+// Longer station lists are checked in the worker only (huge IN lists slow down DuckDB's parquet scan)
+const MAX_SQL_STATION_NAMES = 500;
+
+function scaleRange(range: NumberRange, factor: number): NumberRange {
+  return {
+    min: range.min === null ? null : range.min * factor,
+    max: range.max === null ? null : range.max * factor,
+  };
+}
+
+function resolveStationNames(areas: string[], names: string[], stations: Station[]): string[] | null {
+  if (areas.length === 0 && names.length === 0) return null;
+
+  const areaSet = new Set(areas);
+  const nameSet = new Set(names);
+  return stations
+    .filter(
+      (station) =>
+        (areaSet.size === 0 || areaSet.has(station.borough) || areaSet.has(station.neighborhood)) &&
+        (nameSet.size === 0 || nameSet.has(station.name))
+    )
+    .map((station) => station.name);
+}
+
+/**
+ * Whether resolving a spec needs the station list (areas or stations are set).
+ */
+export function hasStationCriteria(spec: TripFilterSpec): boolean {
+  return spec.startAreas.length + spec.startStations.length + spec.endAreas.length + spec.endStations.length > 0;
+}
+
+/**
+ * Resolve a spec against the station list (main thread).
+ * Resolve again when the list changes - before it loads, station criteria match nothing.
+ */
+export function resolveTripFilter(spec: TripFilterSpec, stations: Station[]): TripFilter {
+  return {
+    bikeTypes: spec.bikeTypes,
+    riderTypes: spec.riderTypes,
+    durationMs: scaleRange(spec.durationMinutes, 60 * 1000),
+    distanceMeters: scaleRange(spec.distanceKm, 1000),
+    speedKmh: spec.speedKmh,
+    startStationNames: resolveStationNames(spec.startAreas, spec.startStations, stations),
+    endStationNames: resolveStationNames(spec.endAreas, spec.endStations, stations),
+  };
+}
+
+export const DEFAULT_TRIP_FILTER = resolveTripFilter(DEFAULT_TRIP_FILTER_SPEC, []);
+
 /**
- * Filters trips to only include those that can be rendered on the map.
+ * Number of criteria that differ from the defaults (for the filter button badge).
+ */
+export function countActiveFilters(spec: TripFilterSpec): number {
+  return (Object.keys(DEFAULT_TRIP_FILTER_SPEC) as Array<keyof TripFilterSpec>).filter(
+    (key) => JSON.stringify(spec[key]) !== JSON.stringify(DEFAULT_TRIP_FILTER_SPEC[key])
+  ).length;
+}
+
+function isInRange(value: number, range: NumberRange, exclusive = false): boolean {
+  if (exclusive) return (range.min === null || value > range.min) && (range.max === null || value < range.max);
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+}
+
+/**
+ * Filters trips to only include those that can be rendered on the map and match the filter.
  * Used by both Search (getTripsFromStation) and BikeMap (prepareTripsForDeck).
  *
- * Criteria:
+ * Always required:
  * 1. Must have route geometry (polyline6 encoded from routes.parquet)
  * 2. Can't be same-station trip
- * 3. Speed must be 2-32 km/h (1.2-20 mph)
+ * 3. Must have a route distance (speed is derived from it)
+ *
+ * Trips ending when they start have no speed: like in SQL, any speed bound drops them.
  */
-export function filterTrips<T extends TripWithRoute>(trips: T[]): T[] {
+export function filterTrips<T extends TripWithRoute>(trips: T[], filter: TripFilter = DEFAULT_TRIP_FILTER): T[] {
+  const startStationNames = filter.startStationNames && new Set(filter.startStationNames);
+  const endStationNames = filter.endStationNames && new Set(filter.endStationNames);
+
   return trips.filter((trip) => {
     // Must have route geometry
     if (!trip.routeGeometry) return false;
@@ -17,13 +136,67 @@ export function filterTrips<T extends TripWithRoute>(trips: T[]): T[] {
     // Can't be same-station trip
     if (trip.startStationName === trip.endStationName) return false;
 
-    // Speed must be 2-32 km/h (1.2-20 mph)
     if (!trip.routeDistance) return false;
     const durationMs = trip.endedAt.getTime() - trip.startedAt.getTime();
     const durationHours = durationMs / (1000 * 60 * 60);
-    const speedKmh = trip.routeDistance / 1000 / durationHours;
-    if (speedKmh <= 2 || speedKmh >= 32) return false;
+    const speedKmh = durationMs === 0 ? NaN : trip.routeDistance / 1000 / durationHours;
+    if (!isInRange(speedKmh, filter.speedKmh, true)) return false;
+    if (!isInRange(durationMs, filter.durationMs)) return false;
+    if (!isInRange(trip.routeDistance, filter.distanceMeters)) return false;
+
+    if (filter.bikeTypes.length > 0 && !filter.bikeTypes.includes(trip.bikeType)) return false;
+    if (filter.riderTypes.length > 0 && !filter.riderTypes.includes(trip.memberCasual)) return false;
+    if (startStationNames && !startStationNames.has(trip.startStationName)) return false;
+    if (endStationNames && !endStationNames.has(trip.endStationName)) return false;
 
     return true;
   });
 }
+
+export type SqlCondition = {
+  condition: string;
+  params: Array<string | number>;
+};
+
+const SQL_DURATION_MS = "(epoch_ms(endedAt) - epoch_ms(startedAt))";
+// NULL (no speed) for trips ending when they start, so speed bounds drop them
+const SQL_SPEED_KMH = `(routeDistance / 1000 / (NULLIF(${SQL_DURATION_MS}, 0) / 3600000.0))`;
+
+function getRangeConditions(expr: string, range: NumberRange, exclusive = false): SqlCondition[] {
+  const conditions: SqlCondition[] = [];
+  if (range.min !== null) conditions.push({ condition: `${expr} ${exclusive ? ">" : ">="} ?`, params: [range.min] });
+  if (range.max !== null) conditions.push({ condition: `${expr} ${exclusive ? "<" : "<="} ?`, params: [range.max] });
+  return conditions;
+}
+
+function getInCondition(column: string, values: string[]): SqlCondition[] {
+  if (values.length === 0) return [];
+  return [{ condition: `${column} IN (${values.map(() => "?").join(", ")})`, params: values }];
+}
+
+// Unlike the other lists, an empty station list matches nothing (as in filterTrips)
+function getStationCondition(column: string, names: string[] | null): SqlCondition[] {
+  if (names === null || names.length > MAX_SQL_STATION_NAMES) return [];
+  if (names.length === 0) return [{ condition: "FALSE", params: [] }];
+  return getInCondition(column, names);
+}
+
+/**
+ * The parts of a filter DuckDB can evaluate, as WHERE conditions for trip queries.
+ * Pushing them down means rows that would be filtered out are never transferred or decoded;
+ * filterTrips in the worker stays the source of truth and covers the rest.
+ */
+export function getTripFilterSqlConditions(filter: TripFilter): SqlCondition[] {
+  return [
+    { condition: "routeGeometry IS NOT NULL", params: [] },
+    { condition: "startStationName <> endStationName", params: [] },
+    { condition: "routeDistance > 0", params: [] },
+    ...getRangeConditions(SQL_SPEED_KMH, filter.speedKmh, true),
+    ...getRangeConditions(SQL_DURATION_MS, filter.durationMs),
+    ...getRangeConditions("routeDistance", filter.distanceMeters),
+    ...getInCondition("bikeType", filter.bikeTypes),
+    ...getInCondition("memberCasual", filter.riderTypes),
+    ...getStationCondition("startStationName", filter.startStationNames),
+    ...getStationCondition("endStationName", filter.endStationNames),
+  ];
+}
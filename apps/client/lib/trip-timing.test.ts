@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { EASE_DISTANCE_METERS, SIM_TRAIL_LENGTH_MS } from "@/lib/config";
+import { getFadeBoundaries, getTimeFraction } from "@/lib/trip-timing";
+
+describe("getFadeBoundaries", () => {
+  test("fades in before the start and out after the trail", () => {
+    expect(getFadeBoundaries(10_000, 50_000, 2_000)).toEqual({
+      simVisibleStartMs: 8_000,
+      simFadeInEndMs: 10_000,
+      simVisibleEndMs: 50_000 + Math.max(2_000, SIM_TRAIL_LENGTH_MS),
+    });
+  });
+
+  test("fades longer than the trail delay the end", () => {
+    const realFadeDurationMs = SIM_TRAIL_LENGTH_MS * 2;
+    expect(getFadeBoundaries(0, 1_000, realFadeDurationMs).simVisibleEndMs).toBe(1_000 + realFadeDurationMs);
+  });
+});
+
+describe("getTimeFraction", () => {
+  const totalDist = 3000;
+
+  test("runs from 0 at the start to 1 at the end", () => {
+    expect(getTimeFraction(0, totalDist)).toBe(0);
+    expect(getTimeFraction(totalDist, totalDist)).toBeCloseTo(1);
+    expect(getTimeFraction(totalDist / 2, totalDist)).toBeCloseTo(0.5);
+  });
+
+  test("increases along the route", () => {
+    let previous = -1;
+    for (let dist = 0; dist <= totalDist; dist += 50) {
+      const fraction = getTimeFraction(dist, totalDist);
+      expect(fraction).toBeGreaterThan(previous);
+      previous = fraction;
+    }
+  });
+
+  test("eases in and out near the stations", () => {
+    // The ease zones take longer than their share of the distance, the middle goes faster
+    const easeInFraction = getTimeFraction(EASE_DISTANCE_METERS, totalDist);
+    expect(easeInFraction).toBeGreaterThan(EASE_DISTANCE_METERS / totalDist);
+    expect(1 - getTimeFraction(totalDist - EASE_DISTANCE_METERS, totalDist)).toBeCloseTo(easeInFraction);
+  });
+
+  test("shortens the ease zones of short routes", () => {
+    expect(getTimeFraction(100, 400)).toBeCloseTo(1 / 3);
+    expect(getTimeFraction(0, 0)).toBe(0);
+  });
+});
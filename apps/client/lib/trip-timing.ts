@@ -0,0 +1,52 @@
+import { EASE_DISTANCE_METERS, EASE_TIME_MULTIPLIER, SIM_TRAIL_LENGTH_MS } from "./config";
+import type { PreparedTrip } from "./trip-types";
+
+export type TripFadeBoundaries = Pick<PreparedTrip, "simVisibleStartMs" | "simFadeInEndMs" | "simVisibleEndMs">;
+
+/**
+ * Phase boundaries that depend on the fade duration (and therefore on speedup).
+ * Used by the worker when processing trips, and to patch loaded trips when speed changes mid-playback.
+ */
+export function getFadeBoundaries(
+  simStartTimeMs: number,
+  simEndTimeMs: number,
+  realFadeDurationMs: number
+): TripFadeBoundaries {
+  const simVisibleStartMs = simStartTimeMs - realFadeDurationMs;
+  return {
+    simVisibleStartMs,
+    simFadeInEndMs: simVisibleStartMs + realFadeDurationMs,
+    simVisibleEndMs: simEndTimeMs + Math.max(realFadeDurationMs, SIM_TRAIL_LENGTH_MS),
+  };
+}
+
+/**
+ * Fraction of a trip's duration elapsed at a distance along its route.
+ * Bikes ease in and out over the first and last EASE_DISTANCE_METERS (slower near stations).
+ */
+export function getTimeFraction(dist: number, totalDist: number): number {
+  if (totalDist <= 0) return 0;
+
+  const easeDist = Math.min(EASE_DISTANCE_METERS, totalDist / 4);
+  const easeInEnd = easeDist;
+  const easeOutStart = totalDist - easeDist;
+  const linearDist = totalDist - 2 * easeDist;
+  const easeInTime = EASE_TIME_MULTIPLIER * easeDist;
+  const linearTime = linearDist;
+  const totalTime = easeInTime + linearTime + easeInTime;
+
+  if (dist < easeInEnd) {
+    const t = dist / easeDist;
+    const timeInEase = Math.sqrt(t);
+    return (timeInEase * easeInTime) / totalTime;
+  } else if (dist > easeOutStart) {
+    const distIntoEaseOut = dist - easeOutStart;
+    const t = Math.min(1, distIntoEaseOut / easeDist);
+    const timeInEase = 1 - Math.sqrt(1 - t);
+    const timeBeforeEaseOut = easeInTime + linearTime;
+    return (timeBeforeEaseOut + timeInEase * easeInTime) / totalTime;
+  } else {
+    const distIntoLinear = dist - easeInEnd;
+    return (easeInTime + distIntoLinear) / totalTime;
+  }
+}
@@ -1,5 +1,7 @@
 // Shared types for trip processing between main thread and worker
 
+import type { TripFilter } from "./trip-filters";
+
 // ============================================================================
 // Graph Types
 // ============================================================================
@@ -9,6 +11,12 @@ export type GraphDataPoint = {
   count: number; // Active trip count at this time
 };
 
+// Rides in this real time range failed to load (see TripDataServiceConfig.onRidesSkipped)
+export type RealTimeRange = {
+  realFromMs: number;
+  realToMs: number;
+};
+
 // ============================================================================
 // Trip Types (from Parquet schema)
 // ============================================================================
@@ -32,47 +40,97 @@ export type TripWithRoute = {
   routeDistance: number | null; // Distance in meters
 };
 
+// ============================================================================
+// Dataset Manifest (manifest.json written by build-parquet.ts)
+// ============================================================================
+
+export type DatasetManifestDay = {
+  day: string; // UTC day key, e.g. "2025-09-15"
+  file: string; // e.g. "2025-09-15.parquet"
+  tripCount: number;
+  bytes: number;
+  minStartedAtMs: number;
+  maxStartedAtMs: number;
+  maxEndedAtMs?: number; // latest end of a ride starting that day, up to MAX_RIDE_DURATION_MS long (missing in older manifests)
+  schemaVersion: number;
+};
+
+export type DatasetManifest = {
+  generatedAt: string;
+  days: DatasetManifestDay[];
+  tripIndexFile?: string; // trip id → day lookup, e.g. "trip-index.parquet" (missing in older manifests)
+};
+
 // ============================================================================
 // Processed Trip (for deck.gl rendering)
 // ============================================================================
 
 export type Phase = "fading-in" | "moving" | "fading-out";
 
-// Transformed trip data for deck.gl TripsLayer
-export type ProcessedTrip = {
+// Trip as prepared by the worker (immutable apart from fade boundaries)
+export type PreparedTrip = {
   id: string;
-  path: [number, number][];
-  simTimestampsMs: number[]; // simulation ms from window start
+  positions: Float64Array; // flat [lng, lat, lng, lat, ...]
+  simTimestampsMs: Float32Array; // simulation ms from window start, one per vertex
   bikeType: string;
   simStartTimeMs: number; // actual trip start (movement begins after fade-in)
   simEndTimeMs: number; // actual trip end (movement stops, fade-out begins)
   simVisibleStartMs: number; // when bike first appears (fade-in starts)
   simVisibleEndMs: number; // when bike disappears (fade-out ends)
-  cumulativeDistances: number[]; // meters from route start
-  lastSegmentIndex: number; // cached cursor for O(1) segment lookup
+  cumulativeDistances: Float32Array; // meters from route start, one per vertex
   // Precomputed phase boundary (avoid recalculating each frame)
   simFadeInEndMs: number;
   // Precomputed bearings for stationary phases
   firstSegmentBearing: number;
   lastSegmentBearing: number;
-  // Mutable state (initialized by worker, updated by main thread each frame)
+  // Metadata for UI display (real timestamps for display)
+  memberCasual: string;
+  startStationName: string;
+  endStationName: string;
+  realStartedAtMs: number;
+  realEndedAtMs: number;
+  routeDistance: number | null;
+};
+
+// Trip on the main thread. Typed arrays are views into the chunk's transferred buffers.
+export type ProcessedTrip = PreparedTrip & {
+  lastSegmentIndex: number; // cached cursor for O(1) segment lookup
+  // Mutable state (initialized on unpack, updated by main thread each frame)
   currentPosition: [number, number];
   currentBearing: number;
   currentPhase: Phase;
   currentPhaseProgress: number;
   isVisible: boolean;
-  isSelected: boolean;
   currentHeadColor: [number, number, number, number];
   currentPathColor: [number, number, number, number];
-  // Viewer-relative tracking (null = never seen by viewer)
+  // Viewer-relative tracking: sim time the trip was added to the map (null = not added yet)
   simViewerFirstSeenMs: number | null;
-  // Metadata for UI display (real timestamps for display)
-  memberCasual: string;
-  startStationName: string;
-  endStationName: string;
-  realStartedAtMs: number;
-  realEndedAtMs: number;
-  routeDistance: number | null;
+};
+
+// A chunk of trips as flat typed arrays, sent from the worker as Transferables (no structured clone)
+export type TripBuffers = {
+  tripCount: number;
+  ids: string[];
+  // Vertex range of trip i is [pathStartIndices[i], pathStartIndices[i + 1])
+  pathStartIndices: Uint32Array;
+  // Per vertex
+  positions: Float64Array; // [lng, lat] pairs
+  simTimestampsMs: Float32Array;
+  cumulativeDistances: Float32Array;
+  // Per trip
+  simStartTimeMs: Float64Array;
+  simEndTimeMs: Float64Array;
+  simVisibleStartMs: Float64Array;
+  simFadeInEndMs: Float64Array;
+  simVisibleEndMs: Float64Array;
+  firstSegmentBearing: Float32Array;
+  lastSegmentBearing: Float32Array;
+  realStartedAtMs: Float64Array;
+  realEndedAtMs: Float64Array;
+  routeDistance: Float64Array; // NaN when unknown
+  // Per trip, indices into strings: bike type, member/casual, start station, end station
+  metadataIndices: Uint32Array;
+  strings: string[];
 };
 
 // ============================================================================
@@ -84,6 +142,7 @@ export type InitMessage = {
   type: "init";
   realWindowStartMs: number;
   realFadeDurationMs: number;
+  filter: TripFilter;
 };
 
 export type LoadBatchMessage = {
@@ -92,9 +151,14 @@ export type LoadBatchMessage = {
   trips: TripWithRoute[];
 };
 
+// forward: trips that become visible in the chunk (by simVisibleStartMs)
+// backward: trips that become visible in the chunk when playing in reverse (by simVisibleEndMs)
+export type PlaybackDirection = "forward" | "backward";
+
 export type RequestChunkMessage = {
   type: "request-chunk";
   chunkIndex: number;
+  direction: PlaybackDirection;
 };
 
 export type ClearBatchMessage = {
@@ -102,11 +166,17 @@ export type ClearBatchMessage = {
   batchId: number;
 };
 
+export type SetFadeDurationMessage = {
+  type: "set-fade-duration";
+  realFadeDurationMs: number;
+};
+
 export type MainToWorkerMessage =
   | InitMessage
   | LoadBatchMessage
   | RequestChunkMessage
-  | ClearBatchMessage;
+  | ClearBatchMessage
+  | SetFadeDurationMessage;
 
 // Worker -> Main Thread
 export type ReadyMessage = {
@@ -117,12 +187,15 @@ export type BatchProcessedMessage = {
   type: "batch-processed";
   batchId: number;
   tripCount: number;
+  bytes: number; // approximate memory held by the worker for the batch
+  routeCacheBytes: number; // approximate memory held by the worker's route cache (shared by all batches)
 };
 
 export type ChunkResponseMessage = {
   type: "chunk-response";
   chunkIndex: number;
-  trips: ProcessedTrip[];
+  direction: PlaybackDirection;
+  buffers: TripBuffers;
 };
 
 export type RequestBatchMessage = {
@@ -130,10 +203,14 @@ export type RequestBatchMessage = {
   batchId: number;
 };
 
+// batchId / chunkIndex + direction: the request that failed (its pending promise is settled by the main thread)
 export type ErrorMessage = {
   type: "error";
   message: string;
   context?: string;
+  batchId?: number;
+  chunkIndex?: number;
+  direction?: PlaybackDirection;
 };
 
 export type WorkerToMainMessage =
@@ -142,3 +219,25 @@ export type WorkerToMainMessage =
   | ChunkResponseMessage
   | RequestBatchMessage
   | ErrorMessage;
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+// Number of trips starting in [bucketStartMs, bucketStartMs + bucket size)
+export type TripCountBucket = {
+  bucketStartMs: number;
+  count: number;
+};
+
+// =============================================================================
+// Station Occupancy
+// =============================================================================
+
+// Trips leaving and docking at a station in [bucketStartMs, bucketStartMs + bucket size)
+export type StationFlowBucket = {
+  stationName: string;
+  bucketStartMs: number;
+  departures: number;
+  arrivals: number;
+};
@@ -0,0 +1,184 @@
+// Shareable view state in the page URL, e.g.
+// /?time=2025-06-04T12:45:00Z&speed=150&lat=40.75682&lng=-73.95447&zoom=15.2&bearing=-29&pitch=40&trip=ABC123
+//
+// Trip filters that differ from the defaults are added too, e.g.
+// &bike=electric_bike&duration=5-30&kmh=-&from=Chelsea&from=Midtown&toStation=W+21+St+%26+6+Ave
+// Ranges are "min-max" with either side left out when unbounded; lists repeat their param.
+//
+// Unrelated params (like ?source=) are left untouched.
+
+import { DEFAULT_TRIP_FILTER_SPEC, type NumberRange, type TripFilterSpec } from "./trip-filters";
+
+export type UrlViewState = {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+  bearing: number;
+  pitch: number;
+};
+
+export type UrlState = {
+  timeMs: number | null; // real time on the clock (epoch ms)
+  speedup: number | null;
+  view: UrlViewState | null;
+  tripId: string | null;
+  filterSpec: TripFilterSpec | null; // null = default filters
+};
+
+// Parsed view needs a position; the rest falls back to the caller's defaults
+export type ParsedUrlViewState = Pick<UrlViewState, "latitude" | "longitude"> & Partial<UrlViewState>;
+
+export type ParsedUrlState = Omit<UrlState, "view"> & {
+  view: ParsedUrlViewState | null;
+};
+
+type FilterListKey = "bikeTypes" | "riderTypes" | "startAreas" | "startStations" | "endAreas" | "endStations";
+type FilterRangeKey = "durationMinutes" | "distanceKm" | "speedKmh";
+
+const FILTER_LIST_PARAMS: Record<FilterListKey, string> = {
+  bikeTypes: "bike",
+  riderTypes: "rider",
+  startAreas: "from",
+  startStations: "fromStation",
+  endAreas: "to",
+  endStations: "toStation",
+};
+
+// "speed" is the playback speed, so the speed filter goes by "kmh"
+const FILTER_RANGE_PARAMS: Record<FilterRangeKey, string> = {
+  durationMinutes: "duration",
+  distanceKm: "distance",
+  speedKmh: "kmh",
+};
+
+const PARAM_KEYS = [
+  "time",
+  "speed",
+  "lat",
+  "lng",
+  "zoom",
+  "bearing",
+  "pitch",
+  "trip",
+  ...Object.values(FILTER_LIST_PARAMS),
+  ...Object.values(FILTER_RANGE_PARAMS),
+];
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// "5-30", "5-" or "-30" (either bound may be left out); null if malformed
+function parseRange(value: string): NumberRange | null {
+  const separatorIndex = value.indexOf("-");
+  if (separatorIndex === -1) return null;
+  const min = value.slice(0, separatorIndex);
+  const max = value.slice(separatorIndex + 1);
+  const range = { min: parseNumber(min), max: parseNumber(max) };
+  if ((min !== "" && range.min === null) || (max !== "" && range.max === null)) return null;
+  return range;
+}
+
+function formatRange(range: NumberRange): string {
+  return `${range.min ?? ""}-${range.max ?? ""}`;
+}
+
+function parseFilterSpec(params: URLSearchParams): TripFilterSpec | null {
+  const spec: TripFilterSpec = { ...DEFAULT_TRIP_FILTER_SPEC };
+  let hasFilters = false;
+
+  for (const [key, param] of Object.entries(FILTER_LIST_PARAMS) as Array<[FilterListKey, string]>) {
+    const values = params.getAll(param).filter((value) => value !== "");
+    if (values.length === 0) continue;
+    spec[key] = values;
+    hasFilters = true;
+  }
+  for (const [key, param] of Object.entries(FILTER_RANGE_PARAMS) as Array<[FilterRangeKey, string]>) {
+    const value = params.get(param);
+    const range = value !== null ? parseRange(value) : null;
+    if (!range) continue;
+    spec[key] = range;
+    hasFilters = true;
+  }
+  return hasFilters ? spec : null;
+}
+
+export function parseUrlState(search: string): ParsedUrlState {
+  const params = new URLSearchParams(search);
+
+  const time = params.get("time");
+  const timeMs = time ? Date.parse(time) : NaN;
+
+  const speedup = parseNumber(params.get("speed"));
+
+  const latitude = parseNumber(params.get("lat"));
+  const longitude = parseNumber(params.get("lng"));
+
+  let view: ParsedUrlViewState | null = null;
+  if (latitude !== null && longitude !== null && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+    view = { latitude, longitude };
+    for (const key of ["zoom", "bearing", "pitch"] as const) {
+      const value = parseNumber(params.get(key));
+      if (value !== null) view[key] = value;
+    }
+  }
+
+  return {
+    timeMs: Number.isNaN(timeMs) ? null : timeMs,
+    speedup: speedup !== null && speedup !== 0 ? speedup : null,
+    view,
+    tripId: params.get("trip") || null,
+    filterSpec: parseFilterSpec(params),
+  };
+}
+
+/**
+ * Replace the current history entry with the given state (no navigation, no new entry).
+ */
+export function writeUrlState(state: UrlState): void {
+  const params = new URLSearchParams(window.location.search);
+  for (const key of PARAM_KEYS) {
+    params.delete(key);
+  }
+
+  if (state.timeMs !== null) {
+    // Whole seconds, e.g. 2025-06-04T12:45:00Z
+    params.set("time", new Date(Math.floor(state.timeMs / 1000) * 1000).toISOString().replace(".000Z", "Z"));
+  }
+  if (state.speedup !== null) {
+    params.set("speed", String(state.speedup));
+  }
+  if (state.view) {
+    params.set("lat", state.view.latitude.toFixed(5));
+    params.set("lng", state.view.longitude.toFixed(5));
+    params.set("zoom", state.view.zoom.toFixed(2));
+    params.set("bearing", state.view.bearing.toFixed(0));
+    params.set("pitch", state.view.pitch.toFixed(0));
+  }
+  if (state.tripId !== null) {
+    params.set("trip", state.tripId);
+  }
+  if (state.filterSpec) {
+    // Only what differs from the defaults
+    for (const [key, param] of Object.entries(FILTER_LIST_PARAMS) as Array<[FilterListKey, string]>) {
+      for (const value of state.filterSpec[key]) {
+        params.append(param, value);
+      }
+    }
+    for (const [key, param] of Object.entries(FILTER_RANGE_PARAMS) as Array<[FilterRangeKey, string]>) {
+      const range = state.filterSpec[key];
+      const defaultRange = DEFAULT_TRIP_FILTER_SPEC[key];
+      if (range.min !== defaultRange.min || range.max !== defaultRange.max) {
+        params.set(param, formatRange(range));
+      }
+    }
+  }
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { BatchMemoryManager } from "@/services/batch-memory";
+
+describe("BatchMemoryManager", () => {
+  test("evicts least recently used batches until under budget", () => {
+    const memory = new BatchMemoryManager(250);
+    memory.add(0, 100);
+    memory.add(1, 100);
+    memory.add(2, 100);
+    memory.touch(0);
+    expect(memory.takeEvictions(new Set())).toEqual([1]);
+    expect(memory.getUsage()).toMatchObject({ workerBytes: 200, batchCount: 2, evictedBatchCount: 1 });
+  });
+
+  test("never evicts protected batches", () => {
+    const memory = new BatchMemoryManager(100);
+    memory.add(0, 100);
+    memory.add(1, 100);
+    memory.add(2, 100);
+    expect(memory.takeEvictions(new Set([0, 1, 2]))).toEqual([]);
+    expect(memory.takeEvictions(new Set([0, 2]))).toEqual([1]);
+    expect(memory.getUsage().workerBytes).toBe(200);
+  });
+
+  test("counts main thread and route cache bytes against the budget", () => {
+    const memory = new BatchMemoryManager(300);
+    memory.add(0, 100);
+    memory.add(1, 100);
+    expect(memory.takeEvictions(new Set())).toEqual([]);
+
+    memory.setMainThreadBytes(80);
+    memory.setRouteCacheBytes(40);
+    expect(memory.takeEvictions(new Set())).toEqual([0]);
+    expect(memory.getUsage()).toEqual({
+      budgetBytes: 300,
+      workerBytes: 100,
+      mainThreadBytes: 80,
+      routeCacheBytes: 40,
+      batchCount: 1,
+      evictedBatchCount: 1,
+    });
+  });
+
+  test("re-adding a batch replaces its bytes and makes it most recent", () => {
+    const memory = new BatchMemoryManager(100);
+    memory.add(0, 100);
+    memory.add(1, 100);
+    memory.add(0, 50);
+    expect(memory.takeEvictions(new Set())).toEqual([1]);
+    expect(memory.getUsage().workerBytes).toBe(50);
+  });
+
+  test("ignores unknown batches", () => {
+    const memory = new BatchMemoryManager(100);
+    memory.touch(5);
+    memory.remove(5);
+    expect(memory.getUsage().batchCount).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+export type MemoryUsage = {
+  budgetBytes: number;
+  workerBytes: number; // processed batches held by the worker
+  mainThreadBytes: number; // buffers retained by trips on the main thread
+  routeCacheBytes: number; // decoded routes cached by the worker
+  batchCount: number;
+  evictedBatchCount: number; // since the service was created
+};
+
+/**
+ * Bytes held per batch against a memory budget, in least to most recently used order.
+ * Batches are used when loaded and whenever a chunk in them is requested.
+ */
+export class BatchMemoryManager {
+  private readonly budgetBytes: number;
+  // Insertion order is recency: delete + set moves a batch to the end
+  private batchBytes = new Map<number, number>();
+  private mainThreadBytes = 0;
+  private routeCacheBytes = 0;
+  private evictedBatchCount = 0;
+
+  constructor(budgetBytes: number) {
+    this.budgetBytes = budgetBytes;
+  }
+
+  add(batchId: number, bytes: number): void {
+    this.batchBytes.delete(batchId);
+    this.batchBytes.set(batchId, bytes);
+  }
+
+  touch(batchId: number): void {
+    const bytes = this.batchBytes.get(batchId);
+    if (bytes === undefined) return;
+    this.batchBytes.delete(batchId);
+    this.batchBytes.set(batchId, bytes);
+  }
+
+  remove(batchId: number): void {
+    this.batchBytes.delete(batchId);
+  }
+
+  // Main thread trips can't be evicted (they're on screen or about to be), but they count against the budget
+  setMainThreadBytes(bytes: number): void {
+    this.mainThreadBytes = bytes;
+  }
+
+  // The worker's route cache is bounded by its own entry limit, but counts against the budget too
+  setRouteCacheBytes(bytes: number): void {
+    this.routeCacheBytes = bytes;
+  }
+
+  /**
+   * Least recently used batches to evict to get back under budget.
+   * Protected batches (around the playhead) are never evicted, even if that leaves usage over budget.
+   */
+  takeEvictions(protectedBatchIds: Set<number>): number[] {
+    const evictions: number[] = [];
+    let totalBytes = this.getWorkerBytes() + this.mainThreadBytes + this.routeCacheBytes;
+    for (const [batchId, bytes] of this.batchBytes) {
+      if (totalBytes <= this.budgetBytes) break;
+      if (protectedBatchIds.has(batchId)) continue;
+      evictions.push(batchId);
+      totalBytes -= bytes;
+    }
+    for (const batchId of evictions) {
+      this.batchBytes.delete(batchId);
+    }
+    this.evictedBatchCount += evictions.length;
+    return evictions;
+  }
+
+  getUsage(): MemoryUsage {
+    return {
+      budgetBytes: this.budgetBytes,
+      workerBytes: this.getWorkerBytes(),
+      mainThreadBytes: this.mainThreadBytes,
+      routeCacheBytes: this.routeCacheBytes,
+      batchCount: this.batchBytes.size,
+      evictedBatchCount: this.evictedBatchCount,
+    };
+  }
+
+  private getWorkerBytes(): number {
+    let bytes = 0;
+    for (const batchBytes of this.batchBytes.values()) {
+      bytes += batchBytes;
+    }
+    return bytes;
+  }
+}
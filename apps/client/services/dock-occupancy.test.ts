@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { DOCK_OCCUPANCY_BUCKET_MS } from "@/lib/config";
+import type { StationFlowBucket } from "@/lib/trip-types";
+import { DockOccupancyModel } from "@/services/dock-occupancy";
+
+const DAY_START_MS = Date.parse("2025-06-05T04:00:00Z");
+const DAY_END_MS = Date.parse("2025-06-06T04:00:00Z");
+
+function flow(stationName: string, bucket: number, departures: number, arrivals: number): StationFlowBucket {
+  return { stationName, bucketStartMs: DAY_START_MS + bucket * DOCK_OCCUPANCY_BUCKET_MS, departures, arrivals };
+}
+
+function bucketTime(bucket: number): number {
+  return DAY_START_MS + bucket * DOCK_OCCUPANCY_BUCKET_MS;
+}
+
+describe("DockOccupancyModel", () => {
+  test("replays flows from the starting fill", () => {
+    const model = new DockOccupancyModel({
+      realDayStartMs: DAY_START_MS,
+      realDayEndMs: DAY_END_MS,
+      flows: [flow("A", 0, 3, 0), flow("A", 2, 0, 5)],
+      capacity: 10,
+      startFillFraction: 0.5,
+    });
+    // Bikes at the start of each bucket: the flows of a bucket show from the next one
+    expect(model.getStationOccupancy("A", bucketTime(0))?.bikes).toBe(5);
+    expect(model.getStationOccupancy("A", bucketTime(1))?.bikes).toBe(2);
+    expect(model.getStationOccupancy("A", bucketTime(3) + 1)).toEqual({
+      stationName: "A",
+      bikes: 7,
+      capacity: 10,
+      status: "available",
+    });
+    expect(model.getStationTimeline("A").slice(0, 4).map((point) => point.bikes)).toEqual([5, 2, 2, 7]);
+  });
+
+  test("clamps to empty and full", () => {
+    const model = new DockOccupancyModel({
+      realDayStartMs: DAY_START_MS,
+      realDayEndMs: DAY_END_MS,
+      flows: [flow("A", 0, 20, 0), flow("A", 1, 0, 3), flow("B", 0, 0, 20)],
+      capacity: 10,
+    });
+    expect(model.getStationOccupancy("A", bucketTime(1))).toMatchObject({ bikes: 0, status: "empty" });
+    // Flows turning back count from the bound, not from below it
+    expect(model.getStationOccupancy("A", bucketTime(2))?.bikes).toBe(3);
+    expect(model.getStationOccupancy("B", bucketTime(1))).toMatchObject({ bikes: 10, status: "full" });
+  });
+
+  test("assumes the same capacity and starting fill for every station", () => {
+    const model = new DockOccupancyModel({
+      realDayStartMs: DAY_START_MS,
+      realDayEndMs: DAY_END_MS,
+      flows: [flow("A", 0, 1, 0), flow("B", 0, 1, 0)],
+      capacity: 40,
+      startFillFraction: 0.25,
+    });
+    expect(model.getStationOccupancy("A", bucketTime(0))).toMatchObject({ bikes: 10, capacity: 40 });
+    expect(model.getStationOccupancy("B", bucketTime(0))).toMatchObject({ bikes: 10, capacity: 40 });
+  });
+
+  test("ignores flows outside the day and stations without rides", () => {
+    const model = new DockOccupancyModel({
+      realDayStartMs: DAY_START_MS,
+      realDayEndMs: DAY_END_MS,
+      flows: [flow("A", -1, 5, 0), flow("A", 288, 5, 0), flow("B", 0, 1, 0)],
+      capacity: 10,
+    });
+    expect(model.getStationTimeline("A")).toEqual([]);
+    expect(model.getStationOccupancy("C", bucketTime(0))).toBeNull();
+    expect(model.getAllOccupancy(bucketTime(1)).map((occupancy) => occupancy.stationName)).toEqual(["B"]);
+  });
+
+  test("times outside the day use the nearest bucket", () => {
+    const model = new DockOccupancyModel({
+      realDayStartMs: DAY_START_MS,
+      realDayEndMs: DAY_END_MS,
+      flows: [flow("A", 0, 2, 0)],
+      capacity: 10,
+    });
+    expect(model.containsTime(DAY_END_MS)).toBe(false);
+    expect(model.getStationOccupancy("A", DAY_START_MS - 1)?.bikes).toBe(5);
+    expect(model.getStationOccupancy("A", DAY_END_MS + 1)?.bikes).toBe(3);
+    expect(model.getStationTimeline("A").at(-1)).toEqual({ realTimeMs: DAY_END_MS, bikes: 3 });
+  });
+});
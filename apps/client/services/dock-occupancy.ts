@@ -0,0 +1,141 @@
+import {
+  DOCK_OCCUPANCY_BUCKET_MS,
+  DOCK_OCCUPANCY_CAPACITY,
+  DOCK_OCCUPANCY_START_FILL_FRACTION,
+} from "@/lib/config";
+import { getNycDayEndMs, getNycDayStartMs } from "@/lib/format";
+import type { StationFlowBucket } from "@/lib/trip-types";
+import { duckdbService } from "@/services/duckdb-service";
+
+export type DockStatus = "empty" | "full" | "available";
+
+export type StationOccupancy = {
+  stationName: string;
+  bikes: number; // estimated bikes docked
+  capacity: number; // docks
+  status: DockStatus;
+};
+
+type StationInventory = {
+  capacity: number;
+  // Bikes docked at the start of each bucket, plus one entry for the end of the day
+  bikesAtBucketStart: Int32Array;
+};
+
+/**
+ * Estimated bikes docked at each station over a day, replayed from its departures and arrivals.
+ *
+ * A net-flow estimate: the trip data has no dock counts, so every station is assumed to have
+ * `capacity` docks and start the day with startFillFraction of them filled. A station is empty or
+ * full only when the replay reaches 0 or its capacity. Rebalancing trucks aren't in the data either -
+ * the replay stays at a bound until flows turn back (as if a truck kept the station from going past it).
+ */
+export class DockOccupancyModel {
+  readonly realDayStartMs: number;
+  readonly realDayEndMs: number;
+  private stations = new Map<string, StationInventory>();
+
+  constructor(params: {
+    realDayStartMs: number;
+    realDayEndMs: number;
+    flows: StationFlowBucket[];
+    capacity?: number; // docks per station
+    startFillFraction?: number;
+  }) {
+    const {
+      realDayStartMs,
+      realDayEndMs,
+      flows,
+      capacity = DOCK_OCCUPANCY_CAPACITY,
+      startFillFraction = DOCK_OCCUPANCY_START_FILL_FRACTION,
+    } = params;
+    this.realDayStartMs = realDayStartMs;
+    this.realDayEndMs = realDayEndMs;
+    const bucketCount = Math.ceil((realDayEndMs - realDayStartMs) / DOCK_OCCUPANCY_BUCKET_MS);
+
+    // Net bikes per bucket, then running totals from the starting fill
+    const netFlows = new Map<string, Int32Array>();
+    for (const flow of flows) {
+      const bucketIndex = this.getBucketIndex(flow.bucketStartMs);
+      if (bucketIndex < 0 || bucketIndex >= bucketCount) continue;
+      let net = netFlows.get(flow.stationName);
+      if (!net) {
+        net = new Int32Array(bucketCount);
+        netFlows.set(flow.stationName, net);
+      }
+      net[bucketIndex] += flow.arrivals - flow.departures;
+    }
+
+    for (const [stationName, net] of netFlows) {
+      const bikesAtBucketStart = new Int32Array(bucketCount + 1);
+      bikesAtBucketStart[0] = Math.round(capacity * startFillFraction);
+      for (let i = 0; i < bucketCount; i++) {
+        bikesAtBucketStart[i + 1] = Math.max(0, Math.min(capacity, bikesAtBucketStart[i] + net[i]));
+      }
+      this.stations.set(stationName, { capacity, bikesAtBucketStart });
+    }
+  }
+
+  /**
+   * Estimated occupancy of one station at a real time within the day (null if it had no rides that day).
+   */
+  getStationOccupancy(stationName: string, realTimeMs: number): StationOccupancy | null {
+    const station = this.stations.get(stationName);
+    if (!station) return null;
+    return this.getOccupancy(stationName, station, realTimeMs);
+  }
+
+  /**
+   * Estimated bikes docked at one station at the start of each bucket of the day.
+   */
+  getStationTimeline(stationName: string): Array<{ realTimeMs: number; bikes: number }> {
+    const station = this.stations.get(stationName);
+    if (!station) return [];
+    return Array.from(station.bikesAtBucketStart, (bikes, i) => ({
+      realTimeMs: Math.min(this.realDayStartMs + i * DOCK_OCCUPANCY_BUCKET_MS, this.realDayEndMs),
+      bikes,
+    }));
+  }
+
+  /**
+   * Estimated occupancy of every station at a real time within the day.
+   */
+  getAllOccupancy(realTimeMs: number): StationOccupancy[] {
+    const occupancy: StationOccupancy[] = [];
+    for (const [stationName, station] of this.stations) {
+      occupancy.push(this.getOccupancy(stationName, station, realTimeMs));
+    }
+    return occupancy;
+  }
+
+  containsTime(realTimeMs: number): boolean {
+    return realTimeMs >= this.realDayStartMs && realTimeMs < this.realDayEndMs;
+  }
+
+  private getOccupancy(stationName: string, station: StationInventory, realTimeMs: number): StationOccupancy {
+    const { capacity, bikesAtBucketStart } = station;
+    const bucketIndex = Math.max(0, Math.min(this.getBucketIndex(realTimeMs), bikesAtBucketStart.length - 1));
+    const bikes = bikesAtBucketStart[bucketIndex];
+    const status: DockStatus = bikes <= 0 ? "empty" : bikes >= capacity ? "full" : "available";
+    return { stationName, bikes, capacity, status };
+  }
+
+  private getBucketIndex(realTimeMs: number): number {
+    return Math.floor((realTimeMs - this.realDayStartMs) / DOCK_OCCUPANCY_BUCKET_MS);
+  }
+}
+
+/**
+ * Build the occupancy model for the NYC day containing a real time.
+ */
+export async function loadDockOccupancy(realTimeMs: number): Promise<DockOccupancyModel> {
+  const realDayStartMs = getNycDayStartMs(realTimeMs);
+  const realDayEndMs = getNycDayEndMs(realTimeMs);
+  await duckdbService.init();
+  const flows = await duckdbService.getStationFlows({
+    from: new Date(realDayStartMs),
+    to: new Date(realDayEndMs),
+    bucketMs: DOCK_OCCUPANCY_BUCKET_MS,
+  });
+  return new DockOccupancyModel({ realDayStartMs, realDayEndMs, flows });
+}
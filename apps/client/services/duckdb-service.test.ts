@@ -0,0 +1,229 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { MAX_RIDE_DURATION_MS, SIM_TRIP_LOOKBACK_MS } from "@/lib/config";
+import { getNycDayEndMs, getNycDayStartMs } from "@/lib/format";
+import type { DatasetManifestDay } from "@/lib/trip-types";
+import {
+  getDaysForRange,
+  getDaysInProgress,
+  getTripDayQuery,
+  getTripLookbackMs,
+  getTripsInRangeQuery,
+  getTripsOverlapQuery,
+} from "@/services/duckdb-service";
+import { ANY_TRIP_FILTER, createFixtureDataset, makeTrip, type FixtureDataset } from "@/test/fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function manifestDay(day: string, overrides: Partial<DatasetManifestDay> = {}): DatasetManifestDay {
+  const dayStartMs = Date.parse(`${day}T00:00:00Z`);
+  return {
+    day,
+    file: `${day}.parquet`,
+    tripCount: 100,
+    bytes: 1000,
+    minStartedAtMs: dayStartMs,
+    maxStartedAtMs: dayStartMs + 24 * HOUR_MS - 1,
+    maxEndedAtMs: dayStartMs + 24 * HOUR_MS + HOUR_MS,
+    schemaVersion: 1,
+    ...overrides,
+  };
+}
+
+function manifestOf(...days: DatasetManifestDay[]): Map<string, DatasetManifestDay> {
+  return new Map(days.map((day) => [day.day, day]));
+}
+
+describe("getDaysForRange", () => {
+  test("lists every UTC day the range touches", () => {
+    const days = getDaysForRange(new Date("2025-06-04T23:00:00Z"), new Date("2025-06-06T01:00:00Z"), null);
+    expect(days).toEqual(["2025-06-04", "2025-06-05", "2025-06-06"]);
+  });
+
+  test("skips days without a file in the manifest", () => {
+    const manifest = manifestOf(manifestDay("2025-06-04"), manifestDay("2025-06-06"));
+    const days = getDaysForRange(new Date("2025-06-04T00:00:00Z"), new Date("2025-06-06T12:00:00Z"), manifest);
+    expect(days).toEqual(["2025-06-04", "2025-06-06"]);
+  });
+
+  test("keeps to the configured range without a manifest", () => {
+    const days = getDaysForRange(new Date("2013-05-30T12:00:00Z"), new Date("2013-06-01T12:00:00Z"), null);
+    expect(days).toEqual(["2013-06-01"]);
+  });
+});
+
+describe("NYC days around DST switches", () => {
+  test("the spring forward day is 23 hours and spans two UTC files", () => {
+    const noonMs = Date.parse("2025-03-09T16:00:00Z");
+    expect(new Date(getNycDayStartMs(noonMs)).toISOString()).toBe("2025-03-09T05:00:00.000Z");
+    expect(new Date(getNycDayEndMs(noonMs)).toISOString()).toBe("2025-03-10T04:00:00.000Z");
+    expect(getNycDayEndMs(noonMs) - getNycDayStartMs(noonMs)).toBe(23 * HOUR_MS);
+    expect(
+      getDaysForRange(new Date(getNycDayStartMs(noonMs)), new Date(getNycDayEndMs(noonMs)), null)
+    ).toEqual(["2025-03-09", "2025-03-10"]);
+  });
+
+  test("the fall back day is 25 hours", () => {
+    const noonMs = Date.parse("2025-11-02T17:00:00Z");
+    expect(new Date(getNycDayStartMs(noonMs)).toISOString()).toBe("2025-11-02T04:00:00.000Z");
+    expect(new Date(getNycDayEndMs(noonMs)).toISOString()).toBe("2025-11-03T05:00:00.000Z");
+    expect(getNycDayEndMs(noonMs) - getNycDayStartMs(noonMs)).toBe(25 * HOUR_MS);
+  });
+
+  test("day boundaries right after the switch stay on the same day", () => {
+    // 3:30 EDT, just after clocks jumped from 2:00 to 3:00
+    const afterSwitchMs = Date.parse("2025-03-09T07:30:00Z");
+    expect(new Date(getNycDayStartMs(afterSwitchMs)).toISOString()).toBe("2025-03-09T05:00:00.000Z");
+  });
+});
+
+describe("getDaysInProgress", () => {
+  test("includes earlier days with rides still in progress", () => {
+    const manifest = manifestOf(
+      manifestDay("2025-06-04", { maxEndedAtMs: Date.parse("2025-06-05T01:30:00Z") }),
+      manifestDay("2025-06-05")
+    );
+    const from = new Date("2025-06-05T01:00:00Z");
+    expect(getDaysInProgress(from, new Date(from.getTime() + 60_000), manifest)).toEqual(["2025-06-04", "2025-06-05"]);
+  });
+
+  test("ignores ride end times beyond the maximum ride duration", () => {
+    // A bike left undocked for days (manifests built before the cap)
+    const manifest = manifestOf(
+      manifestDay("2025-06-04", { maxEndedAtMs: Date.parse("2025-06-09T00:00:00Z") }),
+      manifestDay("2025-06-07")
+    );
+    const from = new Date("2025-06-07T12:00:00Z");
+    expect(getDaysInProgress(from, new Date(from.getTime() + 60_000), manifest)).toEqual(["2025-06-07"]);
+  });
+
+  test("assumes the lookback for days without end times and sources without a manifest", () => {
+    const manifest = manifestOf(manifestDay("2025-06-04", { maxEndedAtMs: undefined }), manifestDay("2025-06-05"));
+    const from = new Date("2025-06-05T01:00:00Z");
+    const to = new Date(from.getTime() + 60_000);
+    expect(getDaysInProgress(from, to, manifest)).toEqual(["2025-06-04", "2025-06-05"]);
+    expect(getDaysInProgress(from, to, null)).toEqual(["2025-06-04", "2025-06-05"]);
+    expect(getDaysInProgress(new Date("2025-06-05T03:00:00Z"), to, null)).toEqual(["2025-06-05"]);
+  });
+});
+
+describe("getTripLookbackMs", () => {
+  const manifest = manifestOf(
+    manifestDay("2025-06-04", { maxEndedAtMs: Date.parse("2025-06-05T01:30:00Z") }),
+    manifestDay("2025-06-05")
+  );
+
+  test("looks back the maximum ride duration", () => {
+    expect(getTripLookbackMs(new Date("2025-06-05T12:00:00Z"), manifest)).toBe(MAX_RIDE_DURATION_MS);
+    expect(getTripLookbackMs(new Date("2025-06-05T01:00:00Z"), manifest)).toBe(MAX_RIDE_DURATION_MS);
+  });
+
+  test("stops at the first day with rides still in progress", () => {
+    expect(getTripLookbackMs(new Date("2025-06-05T02:00:00Z"), manifest)).toBe(2 * HOUR_MS);
+    expect(getTripLookbackMs(new Date("2025-06-06T12:00:00Z"), manifest)).toBe(0);
+  });
+
+  test("assumes the lookback for days without end times and sources without a manifest", () => {
+    const withoutEndTimes = manifestOf(manifestDay("2025-06-05", { maxEndedAtMs: undefined }));
+    expect(getTripLookbackMs(new Date("2025-06-05T12:00:00Z"), withoutEndTimes)).toBe(SIM_TRIP_LOOKBACK_MS);
+    expect(getTripLookbackMs(new Date("2025-06-05T12:00:00Z"), null)).toBe(SIM_TRIP_LOOKBACK_MS);
+  });
+});
+
+describe("trip queries on fixture days", () => {
+  let fixture: FixtureDataset;
+
+  beforeAll(async () => {
+    fixture = await createFixtureDataset([
+      makeTrip("late-sat", "2025-03-08T23:50:00Z", 30), // still riding into the next UTC day
+      makeTrip("before-switch", "2025-03-09T06:30:00Z"), // 1:30 EST
+      makeTrip("after-switch", "2025-03-09T07:05:00Z"), // 3:05 EDT
+      makeTrip("late-sun", "2025-03-10T03:30:00Z"), // 23:30 EDT on Sunday, in Monday's UTC file
+      makeTrip("monday", "2025-03-10T04:30:00Z"), // 0:30 EDT on Monday
+      makeTrip("undocked", "2025-03-10T12:00:00Z", 5 * 60),
+      makeTrip("four-hours", "2025-03-10T12:10:00Z", 4 * 60),
+    ]);
+  });
+
+  afterAll(async () => {
+    await fixture.cleanup();
+  });
+
+  test("writes one file per UTC day", () => {
+    expect(Array.from(fixture.manifestDays.keys())).toEqual(["2025-03-08", "2025-03-09", "2025-03-10"]);
+  });
+
+  test("range queries cover the NYC day across both UTC files", async () => {
+    const noonMs = Date.parse("2025-03-09T16:00:00Z");
+    const trips = await fixture.database.getTripsInRange({
+      from: new Date(getNycDayStartMs(noonMs)),
+      to: new Date(getNycDayEndMs(noonMs)),
+      filter: ANY_TRIP_FILTER,
+    });
+    expect(trips.map((trip) => trip.id)).toEqual(["before-switch", "after-switch", "late-sun"]);
+  });
+
+  test("range queries include the start and exclude the end", async () => {
+    const files = ["2025-03-09.parquet"];
+    const trips = await fixture.query(
+      getTripsInRangeQuery({
+        files,
+        from: new Date("2025-03-09T06:30:00Z"),
+        to: new Date("2025-03-09T07:05:00Z"),
+      })
+    );
+    expect(trips.map((trip) => trip.id)).toEqual(["before-switch"]);
+  });
+
+  test("overlap queries find rides that started the day before", async () => {
+    const chunkStart = new Date("2025-03-09T00:10:00Z");
+    const trips = await fixture.database.getTripsOverlap({
+      chunkStart,
+      chunkEnd: new Date(chunkStart.getTime() + 60_000),
+      filter: ANY_TRIP_FILTER,
+    });
+    expect(trips.map((trip) => trip.id)).toEqual(["late-sat"]);
+  });
+
+  test("overlap queries leave out rides that ended before the window", async () => {
+    const trips = await fixture.query(
+      getTripsOverlapQuery({
+        files: ["2025-03-08.parquet", "2025-03-09.parquet"],
+        chunkStart: new Date("2025-03-09T00:20:00Z"),
+        chunkEnd: new Date("2025-03-09T00:21:00Z"),
+      })
+    );
+    expect(trips).toEqual([]);
+  });
+
+  test("playback queries leave out rides over the maximum ride duration", async () => {
+    const files = ["2025-03-10.parquet"];
+    const range = await fixture.query(
+      getTripsInRangeQuery({ files, from: new Date("2025-03-10T12:00:00Z"), to: new Date("2025-03-10T13:00:00Z") })
+    );
+    expect(range.map((trip) => trip.id)).toEqual(["four-hours"]);
+
+    const chunkStart = new Date("2025-03-10T15:00:00Z");
+    const overlap = await fixture.query(
+      getTripsOverlapQuery({ files, chunkStart, chunkEnd: new Date(chunkStart.getTime() + 60_000) })
+    );
+    expect(overlap.map((trip) => trip.id)).toEqual(["four-hours"]);
+  });
+
+  test("the trip index has the day file of each trip", async () => {
+    const lookUp = (id: string) => fixture.queryRows(getTripDayQuery({ indexFile: "trip-index.parquet", id }));
+    expect(await lookUp("late-sun")).toEqual([{ day: "2025-03-10" }]);
+    expect(await lookUp("late-sat")).toEqual([{ day: "2025-03-08" }]);
+    expect(await lookUp("missing")).toEqual([]);
+  });
+
+  test("trips come back with their columns intact", async () => {
+    const [trip] = await fixture.query(
+      getTripsInRangeQuery({
+        files: ["2025-03-10.parquet"],
+        from: new Date("2025-03-10T04:30:00Z"),
+        to: new Date("2025-03-10T04:31:00Z"),
+      })
+    );
+    expect(trip).toEqual(makeTrip("monday", "2025-03-10T04:30:00Z"));
+  });
+});
@@ -1,8 +1,42 @@
-import { DATA_END_DATE, DATA_START_DATE } from "@/lib/config";
-import type { TripWithRoute } from "@/lib/trip-types";
+import {
+  DATA_END_DATE,
+  DATA_START_DATE,
+  DEFAULT_DATA_SOURCE_URL,
+  MAX_RIDE_DURATION_MS,
+  SIM_TRIP_LOOKBACK_MS,
+} from "@/lib/config";
+import { SqlQuery, TIMESTAMP_PARAM } from "@/lib/sql-query";
+import { getTripFilterSqlConditions, type TripFilter } from "@/lib/trip-filters";
+import type {
+  DatasetManifest,
+  DatasetManifestDay,
+  StationFlowBucket,
+  TripCountBucket,
+  TripWithRoute,
+} from "@/lib/trip-types";
+import { parquetCache } from "@/services/parquet-cache";
+import { telemetry } from "@/services/telemetry";
 import * as duckdb from "@duckdb/duckdb-wasm";
 
-const TRIPS_BASE_URL = "https://cdn.bikemap.nyc";
+// Query param for overriding the data source at runtime (e.g. ?source=http://localhost:8080)
+const DATA_SOURCE_QUERY_PARAM = "source";
+
+// Parquet schema version this client can read (PARQUET_SCHEMA_VERSION in build-parquet.ts)
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve the data source to an absolute URL without trailing slash.
+ * Precedence: ?source= query param > NEXT_PUBLIC_DATA_SOURCE_URL > hosted CDN.
+ * Relative paths (e.g. "/parquets") resolve against the current origin.
+ */
+function resolveDataSourceUrl(): string {
+  const raw =
+    new URLSearchParams(window.location.search).get(DATA_SOURCE_QUERY_PARAM) ??
+    DEFAULT_DATA_SOURCE_URL;
+  return new URL(raw, window.location.origin).href.replace(/\/+$/, "");
+}
 
 /**
  * Get day key from a date (e.g., "2025-09-15")
@@ -12,16 +46,20 @@ function getDayKey(date: Date): string {
   return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}-${String(date.getUTCDate()).padStart(2, "0")}`;
 }
 
-// Valid data range boundaries (derived from config)
-const DATA_START_DAY = getDayKey(DATA_START_DATE);
-const DATA_END_DAY = getDayKey(DATA_END_DATE);
+// Fallback data range boundaries for sources without a manifest (derived from config)
+const FALLBACK_START_DAY = getDayKey(DATA_START_DATE);
+const FALLBACK_END_DAY = getDayKey(DATA_END_DATE);
 
 /**
  * Get the list of days that overlap with a date range
  * Uses UTC to match parquet file naming convention
- * Filters to only include days within the valid data range
+ * Filters to days listed in the manifest, or to the fallback range if there is none
  */
-function getDaysForRange(from: Date, to: Date): string[] {
+export function getDaysForRange(
+  from: Date,
+  to: Date,
+  availableDays: ReadonlyMap<string, DatasetManifestDay> | null
+): string[] {
   const days: string[] = [];
   const current = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
   const end = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()));
@@ -31,18 +69,137 @@ function getDaysForRange(from: Date, to: Date): string[] {
     current.setUTCDate(current.getUTCDate() + 1);
   }
 
-  // Filter to valid data range (prevents loading non-existent parquet files)
-  return days.filter((d) => d >= DATA_START_DAY && d <= DATA_END_DAY);
+  // Skip days without a file (prevents failed reads of non-existent parquet files)
+  if (availableDays) {
+    return days.filter((d) => availableDays.has(d));
+  }
+  return days.filter((d) => d >= FALLBACK_START_DAY && d <= FALLBACK_END_DAY);
+}
+
+/**
+ * Get the days holding trips that can be in progress during a time window (started before
+ * `to`, ended after `from`). Uses per-day end times from the manifest (rides up to
+ * MAX_RIDE_DURATION_MS); days without them (or sources without a manifest) assume trips
+ * last at most SIM_TRIP_LOOKBACK_MS.
+ */
+export function getDaysInProgress(
+  from: Date,
+  to: Date,
+  availableDays: ReadonlyMap<string, DatasetManifestDay> | null
+): string[] {
+  if (!availableDays) {
+    return getDaysForRange(new Date(from.getTime() - SIM_TRIP_LOOKBACK_MS), to, null);
+  }
+
+  const days: string[] = [];
+  for (const day of availableDays.values()) {
+    if (day.minStartedAtMs < to.getTime() && getMaxEndedAtMs(day) > from.getTime()) {
+      days.push(day.day);
+    }
+  }
+  return days;
+}
+
+/**
+ * How long before `at` a ride still in progress at `at` can have started, with the same per-day
+ * bounds as getDaysInProgress: back to the first day with rides still in progress, at most
+ * MAX_RIDE_DURATION_MS (SIM_TRIP_LOOKBACK_MS for days without end times or sources without a manifest).
+ */
+export function getTripLookbackMs(at: Date, availableDays: ReadonlyMap<string, DatasetManifestDay> | null): number {
+  if (!availableDays) return SIM_TRIP_LOOKBACK_MS;
+
+  const atMs = at.getTime();
+  let earliestStartMs = atMs;
+  for (const day of availableDays.values()) {
+    if (day.minStartedAtMs < atMs && getMaxEndedAtMs(day) > atMs) {
+      earliestStartMs = Math.min(earliestStartMs, Math.max(day.minStartedAtMs, atMs - getMaxRideDurationMs(day)));
+    }
+  }
+  return atMs - earliestStartMs;
+}
+
+function getMaxRideDurationMs(day: DatasetManifestDay): number {
+  return day.maxEndedAtMs === undefined ? SIM_TRIP_LOOKBACK_MS : MAX_RIDE_DURATION_MS;
+}
+
+// Capped for manifests built before build-parquet ignored rides over MAX_RIDE_DURATION_MS
+function getMaxEndedAtMs(day: DatasetManifestDay): number {
+  return Math.min(day.maxEndedAtMs ?? Infinity, day.maxStartedAtMs + getMaxRideDurationMs(day));
+}
+
+/**
+ * Add the conditions of a trip filter that DuckDB can evaluate (the rest is applied in the worker)
+ */
+function applyTripFilter(query: SqlQuery, filter: TripFilter | undefined): SqlQuery {
+  if (!filter) return query;
+  for (const { condition, params } of getTripFilterSqlConditions(filter)) {
+    query.where(condition, ...params);
+  }
+  return query;
+}
+
+// Playback leaves out rides longer than MAX_RIDE_DURATION_MS (bikes that weren't docked properly)
+const MAX_RIDE_DURATION_CONDITION = "(epoch_ms(endedAt) - epoch_ms(startedAt)) <= ?";
+
+/**
+ * Trips that START within a time range (batches)
+ */
+export function getTripsInRangeQuery(params: { files: string[]; from: Date; to: Date; filter?: TripFilter }): SqlQuery {
+  const { files, from, to, filter } = params;
+  return applyTripFilter(
+    new SqlQuery()
+      .from(files)
+      .where(`startedAt >= ${TIMESTAMP_PARAM}`, from.getTime())
+      .where(`startedAt < ${TIMESTAMP_PARAM}`, to.getTime())
+      .where(MAX_RIDE_DURATION_CONDITION, MAX_RIDE_DURATION_MS),
+    filter
+  ).orderBy("startedAt ASC");
+}
+
+/**
+ * Trips that OVERLAP a time window (started before its end, ended after its start)
+ */
+export function getTripsOverlapQuery(params: {
+  files: string[];
+  chunkStart: Date;
+  chunkEnd: Date;
+  filter?: TripFilter;
+}): SqlQuery {
+  const { files, chunkStart, chunkEnd, filter } = params;
+  return applyTripFilter(
+    new SqlQuery()
+      .from(files)
+      .where(`startedAt < ${TIMESTAMP_PARAM}`, chunkEnd.getTime())
+      .where(`endedAt > ${TIMESTAMP_PARAM}`, chunkStart.getTime())
+      .where(MAX_RIDE_DURATION_CONDITION, MAX_RIDE_DURATION_MS),
+    filter
+  ).orderBy("startedAt ASC");
+}
+
+/**
+ * Day file of a trip, from the trip index written by build-parquet.ts
+ */
+export function getTripDayQuery(params: { indexFile: string; id: string }): SqlQuery {
+  return new SqlQuery().select(["day"]).from([params.indexFile]).where("id = ?", params.id).limit(1);
 }
 
 /**
- * DuckDB WASM service for querying Parquet files from GCS.
+ * DuckDB WASM service for querying Parquet files from the configured data source.
  * Uses an internal worker for non-blocking queries.
  */
 class DuckDBService {
   private db: duckdb.AsyncDuckDB | null = null;
   private conn: duckdb.AsyncDuckDBConnection | null = null;
   private initPromise: Promise<void> | null = null;
+  private dataSourceUrl: string | null = null;
+  private dataSourceCheckPromise: Promise<void> | null = null;
+  private manifestPromise: Promise<DatasetManifest | null> | null = null;
+  private manifestDays: Map<string, DatasetManifestDay> | null = null;
+  private manifestGeneratedAt: string | null = null;
+  // Files read over HTTP, with DuckDB's file statistics enabled (for telemetry), and how many
+  // of their block reads have been counted so far. Shared by all queries, so reads made while
+  // queries run concurrently are counted once (by the first query to finish after them).
+  private httpFiles = new Map<string, number>();
 
   async init(): Promise<void> {
     if (this.initPromise) return this.initPromise;
@@ -86,6 +243,188 @@ class DuckDBService {
     console.log(`[DuckDB] Initialized in ${Date.now() - startTime}ms`);
   }
 
+  /**
+   * Get the resolved data source URL (folder containing the daily parquet files)
+   */
+  getDataSourceUrl(): string {
+    if (!this.dataSourceUrl) {
+      this.dataSourceUrl = resolveDataSourceUrl();
+    }
+    return this.dataSourceUrl;
+  }
+
+  /**
+   * Check that the data source is reachable, and (for sources without a manifest) that it has
+   * the day file for `date`. A misconfigured mirror then fails fast at startup with a clear reason
+   * instead of surfacing as retried batch failures.
+   */
+  async checkDataSource(date: Date): Promise<void> {
+    if (!this.dataSourceCheckPromise) {
+      this.dataSourceCheckPromise = this.checkReachable();
+      // Allow re-checking after a failure (e.g. local dev server started late)
+      this.dataSourceCheckPromise.catch(() => {
+        this.dataSourceCheckPromise = null;
+      });
+    }
+    await this.dataSourceCheckPromise;
+
+    // With a manifest, days without a file are skipped by the queries
+    if (this.manifestDays) return;
+    await this.checkDayFile(date);
+  }
+
+  // The manifest request reaching the server (even a 404 for a source without one) proves the source is up
+  private async checkReachable(): Promise<void> {
+    await this.loadManifest();
+    console.log(`[DuckDB] Data source reachable: ${this.getDataSourceUrl()}`);
+  }
+
+  private async checkDayFile(date: Date): Promise<void> {
+    const baseUrl = this.getDataSourceUrl();
+    const url = `${baseUrl}/${getDayKey(date)}.parquet`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: "HEAD" });
+    } catch {
+      // Network errors and CORS rejections both land here
+      throw new Error(`Data source unreachable: ${baseUrl}`);
+    }
+
+    if (response.status === 404) {
+      throw new Error(`No trip data for ${getDayKey(date)} at ${baseUrl}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Data source returned ${response.status} for ${url}`);
+    }
+  }
+
+  /**
+   * Load manifest.json from the data source (once).
+   * Resolves to null if the source has no manifest, in which case queries fall back
+   * to the DATA_START_DATE..DATA_END_DATE range from config.
+   */
+  async loadManifest(): Promise<DatasetManifest | null> {
+    if (this.manifestPromise) return this.manifestPromise;
+
+    this.manifestPromise = this._loadManifest();
+    // Allow retrying after a network failure
+    this.manifestPromise.catch(() => {
+      this.manifestPromise = null;
+    });
+    return this.manifestPromise;
+  }
+
+  private async _loadManifest(): Promise<DatasetManifest | null> {
+    const baseUrl = this.getDataSourceUrl();
+    const url = `${baseUrl}/manifest.json`;
+
+    let manifestText: string;
+    try {
+      // Revalidate so a rebuilt dataset is picked up without a hard refresh
+      const response = await fetch(url, { cache: "no-cache" });
+      if (response.status === 404) {
+        console.warn(`[DuckDB] No manifest.json at ${baseUrl}, using configured date range`);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Data source returned ${response.status} for manifest.json`);
+      }
+      manifestText = await response.text();
+      parquetCache.put(url, new Blob([manifestText])).catch(() => {});
+    } catch (error) {
+      // Offline: fall back to the manifest cached on a previous visit
+      const cachedManifest = await parquetCache.get(url);
+      if (!cachedManifest) {
+        throw error instanceof TypeError ? new Error(`Data source unreachable: ${baseUrl}`) : error;
+      }
+      console.warn("[DuckDB] Data source unreachable, using cached manifest");
+      manifestText = await cachedManifest.text();
+    }
+
+    const manifest = JSON.parse(manifestText) as DatasetManifest;
+
+    const manifestDays = new Map<string, DatasetManifestDay>();
+    let unsupportedCount = 0;
+    for (const day of manifest.days) {
+      if (day.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+        unsupportedCount++;
+        continue;
+      }
+      manifestDays.set(day.day, day);
+    }
+    this.manifestDays = manifestDays;
+    this.manifestGeneratedAt = manifest.generatedAt;
+
+    // Drop cached days from earlier builds of this source (other sources' files are left alone)
+    parquetCache
+      .removeStale((cachedUrl, version) => {
+        const day = cachedUrl.match(/\/(\d{4}-\d{2}-\d{2})\.parquet$/)?.[1];
+        return !cachedUrl.startsWith(`${baseUrl}/`) || !day || version === this.getDayVersion(day);
+      })
+      .catch(() => {});
+
+    if (unsupportedCount > 0) {
+      console.warn(`[DuckDB] Skipping ${unsupportedCount} days with unsupported schema version`);
+    }
+    console.log(`[DuckDB] Manifest loaded: ${manifestDays.size} days (generated ${manifest.generatedAt})`);
+    return manifest;
+  }
+
+  /**
+   * Get the time range covered by the data source.
+   * Uses the manifest's first/last trip start, or the configured range if there is none.
+   */
+  async getDataRange(): Promise<{ start: Date; end: Date }> {
+    await this.loadManifest();
+
+    if (!this.manifestDays || this.manifestDays.size === 0) {
+      return { start: DATA_START_DATE, end: DATA_END_DATE };
+    }
+
+    let minStartedAtMs = Infinity;
+    let maxStartedAtMs = -Infinity;
+    for (const day of this.manifestDays.values()) {
+      minStartedAtMs = Math.min(minStartedAtMs, day.minStartedAtMs);
+      maxStartedAtMs = Math.max(maxStartedAtMs, day.maxStartedAtMs);
+    }
+    return { start: new Date(minStartedAtMs), end: new Date(maxStartedAtMs) };
+  }
+
+  /**
+   * How long before a time the rides in progress at it can have started (see getTripLookbackMs)
+   */
+  async getTripLookbackMs(at: Date): Promise<number> {
+    await this.loadManifest();
+    return getTripLookbackMs(at, this.manifestDays);
+  }
+
+  /**
+   * Get the days with data that overlap a date range
+   */
+  private async getAvailableDays(from: Date, to: Date): Promise<string[]> {
+    await this.loadManifest();
+    return getDaysForRange(from, to, this.manifestDays);
+  }
+
+  /**
+   * Get the days holding trips that can be in progress during a time window (see getDaysInProgress)
+   */
+  private async getDaysInProgress(from: Date, to: Date): Promise<string[]> {
+    await this.loadManifest();
+    return getDaysInProgress(from, to, this.manifestDays);
+  }
+
+  /**
+   * Identifies the build a day file came from, for the offline cache.
+   * Null for days not in the manifest (or sources without one), which are never cached.
+   */
+  private getDayVersion(day: string): string | null {
+    const manifestDay = this.manifestDays?.get(day);
+    if (!manifestDay || !this.manifestGeneratedAt) return null;
+    return `${this.manifestGeneratedAt}/${manifestDay.bytes}`;
+  }
+
   private ensureInitialized(): { conn: duckdb.AsyncDuckDBConnection; db: duckdb.AsyncDuckDB } {
     if (!this.conn || !this.db) {
       throw new Error("DuckDB not initialized. Call init() first.");
@@ -94,51 +433,165 @@ class DuckDBService {
   }
 
   /**
-   * Register daily parquet files for a date range
+   * Register daily parquet files for a date range.
+   * Days in the offline cache are read from disk; others use HTTP range requests.
+   * With offline days enabled in settings, days registered for playback (cacheForOffline)
+   * are also downloaded whole into the cache for the next visit.
+   * Returns the registered file names for use in SqlQuery.from().
    */
-  private async registerDailyFiles(days: string[]): Promise<void> {
+  private async registerDailyFiles(days: string[], cacheForOffline = false): Promise<string[]> {
     const { db } = this.ensureInitialized();
+    const baseUrl = this.getDataSourceUrl();
+    const filenames: string[] = [];
     for (const day of days) {
       const filename = `${day}.parquet`;
-      const url = `${TRIPS_BASE_URL}/parquets/${filename}`;
-      await db.registerFileURL(filename, url, duckdb.DuckDBDataProtocol.HTTP, false);
+      const url = `${baseUrl}/${filename}`;
+
+      const version = this.getDayVersion(day);
+      const cachedFile = version ? await parquetCache.get(url, version) : null;
+      if (cachedFile) {
+        await db.registerFileHandle(filename, cachedFile, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true);
+        this.httpFiles.delete(filename);
+      } else {
+        await db.registerFileURL(filename, url, duckdb.DuckDBDataProtocol.HTTP, false);
+        if (!this.httpFiles.has(filename)) {
+          await db.collectFileStatistics(filename, true);
+          this.httpFiles.set(filename, 0);
+        }
+        const manifestDay = this.manifestDays?.get(day);
+        if (cacheForOffline && version && manifestDay && parquetCache.isOfflineDaysEnabled()) {
+          parquetCache.download(url, { bytes: manifestDay.bytes, version });
+        }
+      }
+      filenames.push(filename);
+    }
+    return filenames;
+  }
+
+  /**
+   * Run a query and record its timing and HTTP reads (see telemetry).
+   */
+  private async runQuery(
+    query: SqlQuery,
+    options: { kind: string; files: string[]; signal?: AbortSignal }
+  ): Promise<unknown[]> {
+    const { kind, files, signal } = options;
+    const realStartedAtMs = Date.now();
+
+    const rows = await this.executeQuery(query, signal);
+
+    const { reads, blockSize } = await this.takeHttpReads(files);
+    telemetry.recordQuery({
+      kind,
+      realStartedAtMs,
+      durationMs: Date.now() - realStartedAtMs,
+      rowCount: rows.length,
+      fileCount: files.length,
+      httpReads: reads,
+      httpBytes: reads * blockSize,
+    });
+    return rows;
+  }
+
+  // Block reads DuckDB made over HTTP for these files (each is a range request) that no query
+  // has counted yet. Concurrent queries on the same files each get part of the reads, never the same ones.
+  private async takeHttpReads(files: string[]): Promise<{ reads: number; blockSize: number }> {
+    const { db } = this.ensureInitialized();
+    let reads = 0;
+    let blockSize = 0;
+    for (const file of files) {
+      if (!this.httpFiles.has(file)) continue;
+      try {
+        const stats = await db.exportFileStatistics(file);
+        const total = stats.totalFileReadsCold + stats.totalFileReadsAhead;
+        const counted = this.httpFiles.get(file) ?? 0;
+        // Checked and updated with no await in between, so no other query sees the old count
+        reads += total >= counted ? total - counted : total;
+        this.httpFiles.set(file, total);
+        blockSize = stats.blockSize;
+      } catch {
+        // Statistics are best effort - a missing file just isn't counted
+      }
+    }
+    return { reads, blockSize };
+  }
+
+  /**
+   * Run a query as a prepared statement so all values are bound, never spliced.
+   * With a signal, the query runs on its own connection and is interrupted on abort,
+   * so a superseded batch stops fetching row groups instead of running to completion.
+   */
+  private async executeQuery(query: SqlQuery, signal?: AbortSignal): Promise<unknown[]> {
+    const { db, conn: sharedConn } = this.ensureInitialized();
+    const { sql, params } = query.build();
+
+    if (!signal) {
+      const statement = await sharedConn.prepare(sql);
+      try {
+        return (await statement.query(...params)).toArray();
+      } finally {
+        await statement.close();
+      }
+    }
+
+    signal.throwIfAborted();
+
+    // Dedicated connection so cancelling doesn't affect other in-flight queries
+    const conn = await db.connect();
+    const handleAbort = () => {
+      conn.cancelSent().catch(() => {});
+    };
+    signal.addEventListener("abort", handleAbort);
+
+    try {
+      const statement = await conn.prepare(sql);
+      try {
+        // Stream record batches so we can bail out between row groups
+        const reader = await statement.send(...params);
+        const rows: unknown[] = [];
+        for await (const batch of reader) {
+          signal.throwIfAborted();
+          rows.push(...batch.toArray());
+        }
+        signal.throwIfAborted();
+        return rows;
+      } finally {
+        await statement.close();
+      }
+    } catch (error) {
+      // Report cancellation as an abort rather than whatever DuckDB threw
+      signal.throwIfAborted();
+      throw error;
+    } finally {
+      signal.removeEventListener("abort", handleAbort);
+      await conn.close();
     }
   }
 
   /**
    * Get trips that START within a time range (for progressive batch loading)
    */
-  async getTripsInRange(params: { from: Date; to: Date }): Promise<TripWithRoute[]> {
-    const { conn } = this.ensureInitialized();
-    const { from, to } = params;
+  async getTripsInRange(params: {
+    from: Date;
+    to: Date;
+    filter?: TripFilter;
+    signal?: AbortSignal;
+  }): Promise<TripWithRoute[]> {
+    this.ensureInitialized();
+    const { from, to, filter, signal } = params;
 
-    const days = getDaysForRange(from, to);
-    await this.registerDailyFiles(days);
+    const days = await this.getAvailableDays(from, to);
+    if (days.length === 0) return [];
+    const files = await this.registerDailyFiles(days, true);
 
-    const files = days.map((d) => `'${d}.parquet'`).join(", ");
     console.log(`[DuckDB] getTripsInRange: ${from.toISOString()} to ${to.toISOString()} (files: ${days.length} days)`);
     const startTime = Date.now();
 
-    const result = await conn.query(`
-      SELECT
-        id,
-        startStationName,
-        endStationName,
-        startedAt,
-        endedAt,
-        bikeType,
-        memberCasual,
-        startLat,
-        startLng,
-        endLat,
-        endLng,
-        routeGeometry,
-        routeDistance
-      FROM read_parquet([${files}])
-      WHERE startedAt >= epoch_ms(${from.getTime()})
-        AND startedAt < epoch_ms(${to.getTime()})
-      ORDER BY startedAt ASC
-    `);
+    const result = await this.runQuery(getTripsInRangeQuery({ files, from, to, filter }), {
+      kind: "getTripsInRange",
+      files,
+      signal,
+    });
 
     const trips = this.transformResults(result);
     console.log(`[DuckDB] getTripsInRange completed in ${Date.now() - startTime}ms, ${trips.length} trips`);
@@ -149,40 +602,28 @@ class DuckDBService {
    * Get trips that OVERLAP with a time window (started before end, ended after start)
    * Used for loading trips already in progress at animation start
    */
-  async getTripsOverlap(params: { chunkStart: Date; chunkEnd: Date }): Promise<TripWithRoute[]> {
-    const { conn } = this.ensureInitialized();
-    const { chunkStart, chunkEnd } = params;
+  async getTripsOverlap(params: {
+    chunkStart: Date;
+    chunkEnd: Date;
+    filter?: TripFilter;
+    signal?: AbortSignal;
+  }): Promise<TripWithRoute[]> {
+    this.ensureInitialized();
+    const { chunkStart, chunkEnd, filter, signal } = params;
 
-    // For overlap queries, we need files that could contain trips starting before chunkEnd
-    // 90 min lookback covers 99.92% of trips (P99.9 is 85 min with speed filters applied)
-    const lookbackStart = new Date(chunkStart.getTime() - 90 * 60 * 1000); // 90 min lookback
-    const days = getDaysForRange(lookbackStart, chunkEnd);
-    await this.registerDailyFiles(days);
+    // Files of every day with a trip that could still be riding at chunkStart, however long ago it started
+    const days = await this.getDaysInProgress(chunkStart, chunkEnd);
+    if (days.length === 0) return [];
+    const files = await this.registerDailyFiles(days, true);
 
-    const files = days.map((d) => `'${d}.parquet'`).join(", ");
     console.log(`[DuckDB] getTripsOverlap: ${chunkStart.toISOString()} to ${chunkEnd.toISOString()} (files: ${days.length} days)`);
     const startTime = Date.now();
 
-    const result = await conn.query(`
-      SELECT
-        id,
-        startStationName,
-        endStationName,
-        startedAt,
-        endedAt,
-        bikeType,
-        memberCasual,
-        startLat,
-        startLng,
-        endLat,
-        endLng,
-        routeGeometry,
-        routeDistance
-      FROM read_parquet([${files}])
-      WHERE startedAt < epoch_ms(${chunkEnd.getTime()})
-        AND endedAt > epoch_ms(${chunkStart.getTime()})
-      ORDER BY startedAt ASC
-    `);
+    const result = await this.runQuery(getTripsOverlapQuery({ files, chunkStart, chunkEnd, filter }), {
+      kind: "getTripsOverlap",
+      files,
+      signal,
+    });
 
     const trips = this.transformResults(result);
     console.log(`[DuckDB] getTripsOverlap completed in ${Date.now() - startTime}ms, ${trips.length} trips`);
@@ -198,50 +639,186 @@ class DuckDBService {
     datetime: Date;
     intervalMs: number;
   }): Promise<TripWithRoute[]> {
-    const { conn } = this.ensureInitialized();
+    this.ensureInitialized();
     const { startStationName, datetime, intervalMs } = params;
 
-    const windowStart = new Date(datetime.getTime() - intervalMs);
-    const windowEnd = new Date(datetime.getTime() + intervalMs);
+    // Clamp search window to the data range
+    const dataRange = await this.getDataRange();
+    const windowStart = new Date(Math.max(datetime.getTime() - intervalMs, dataRange.start.getTime()));
+    const windowEnd = new Date(Math.min(datetime.getTime() + intervalMs, dataRange.end.getTime()));
+    if (windowStart > windowEnd) return [];
+
+    const days = await this.getAvailableDays(windowStart, windowEnd);
+    if (days.length === 0) return [];
+    const files = await this.registerDailyFiles(days);
+
+    const result = await this.runQuery(
+      new SqlQuery()
+        .from(files)
+        .where("startStationName = ?", startStationName)
+        .where(`startedAt >= ${TIMESTAMP_PARAM}`, windowStart.getTime())
+        .where(`startedAt <= ${TIMESTAMP_PARAM}`, windowEnd.getTime())
+        .orderBy("startedAt ASC"),
+      { kind: "getTripsFromStation", files }
+    );
 
-    const days = getDaysForRange(windowStart, windowEnd);
-    await this.registerDailyFiles(days);
+    return this.transformResults(result);
+  }
 
-    const files = days.map((d) => `'${d}.parquet'`).join(", ");
+  /**
+   * Count trips starting in each bucket of a time window (for the timeline histogram).
+   * Only buckets with at least one trip are returned, in time order.
+   * With a filter, only the conditions DuckDB can evaluate are applied (counts may be slightly high).
+   */
+  async getTripCountHistogram(params: {
+    from: Date;
+    to: Date;
+    bucketMs: number;
+    filter?: TripFilter;
+  }): Promise<TripCountBucket[]> {
+    this.ensureInitialized();
+    const { from, to, bucketMs, filter } = params;
+    if (!Number.isInteger(bucketMs) || bucketMs <= 0) {
+      throw new Error(`Invalid bucket size: ${bucketMs}`);
+    }
 
-    // Escape single quotes in station name
-    const escapedName = startStationName.replace(/'/g, "''");
+    const days = await this.getAvailableDays(from, to);
+    if (days.length === 0) return [];
+    const files = await this.registerDailyFiles(days);
+
+    const result = await this.runQuery(
+      applyTripFilter(
+        new SqlQuery()
+          .select([`(epoch_ms(startedAt) // ${bucketMs}) * ${bucketMs} AS bucketStartMs`, "COUNT(*) AS count"])
+          .from(files)
+          .where(`startedAt >= ${TIMESTAMP_PARAM}`, from.getTime())
+          .where(`startedAt < ${TIMESTAMP_PARAM}`, to.getTime()),
+        filter
+      )
+        .groupBy("bucketStartMs")
+        .orderBy("bucketStartMs"),
+      { kind: "getTripCountHistogram", files }
+    );
 
-    const result = await conn.query(`
-      SELECT
-        id,
-        startStationName,
-        endStationName,
-        startedAt,
-        endedAt,
-        bikeType,
-        memberCasual,
-        startLat,
-        startLng,
-        endLat,
-        endLng,
-        routeGeometry,
-        routeDistance
-      FROM read_parquet([${files}])
-      WHERE startStationName = '${escapedName}'
-        AND startedAt >= epoch_ms(${windowStart.getTime()})
-        AND startedAt <= epoch_ms(${windowEnd.getTime()})
-      ORDER BY startedAt ASC
-    `);
+    // DuckDB WASM returns BIGINT columns as BigInt
+    return (result as Array<{ bucketStartMs: bigint; count: bigint }>).map((row) => ({
+      bucketStartMs: Number(row.bucketStartMs),
+      count: Number(row.count),
+    }));
+  }
 
-    return this.transformResults(result);
+  /**
+   * Count departures (by start time) and arrivals (by end time) per station in each bucket of a time window
+   * (for dock occupancy). Always unfiltered - every ride moves a bike, whatever the map shows.
+   * Only station buckets with at least one departure or arrival are returned, in time order.
+   */
+  async getStationFlows(params: { from: Date; to: Date; bucketMs: number }): Promise<StationFlowBucket[]> {
+    this.ensureInitialized();
+    const { from, to, bucketMs } = params;
+    if (!Number.isInteger(bucketMs) || bucketMs <= 0) {
+      throw new Error(`Invalid bucket size: ${bucketMs}`);
+    }
+
+    // Arrivals include rides that started on an earlier day
+    const days = await this.getDaysInProgress(from, to);
+    if (days.length === 0) return [];
+    const files = await this.registerDailyFiles(days);
+
+    const countEvents = (stationColumn: string, timeColumn: string) =>
+      this.runQuery(
+        new SqlQuery()
+          .select([
+            `${stationColumn} AS stationName`,
+            `(epoch_ms(${timeColumn}) // ${bucketMs}) * ${bucketMs} AS bucketStartMs`,
+            "COUNT(*) AS count",
+          ])
+          .from(files)
+          .where(`${timeColumn} >= ${TIMESTAMP_PARAM}`, from.getTime())
+          .where(`${timeColumn} < ${TIMESTAMP_PARAM}`, to.getTime())
+          .groupBy("stationName, bucketStartMs"),
+        { kind: "getStationFlows", files }
+      ) as Promise<Array<{ stationName: string; bucketStartMs: bigint; count: bigint }>>;
+    const departures = await countEvents("startStationName", "startedAt");
+    const arrivals = await countEvents("endStationName", "endedAt");
+
+    // DuckDB WASM returns BIGINT columns as BigInt
+    const flows = new Map<string, StationFlowBucket>();
+    const getFlow = (stationName: string, bucketStartMs: number) => {
+      const key = `${bucketStartMs}:${stationName}`;
+      let flow = flows.get(key);
+      if (!flow) {
+        flow = { stationName, bucketStartMs, departures: 0, arrivals: 0 };
+        flows.set(key, flow);
+      }
+      return flow;
+    };
+    for (const row of departures) {
+      getFlow(row.stationName, Number(row.bucketStartMs)).departures += Number(row.count);
+    }
+    for (const row of arrivals) {
+      getFlow(row.stationName, Number(row.bucketStartMs)).arrivals += Number(row.count);
+    }
+    return Array.from(flows.values()).sort((a, b) => a.bucketStartMs - b.bucketStartMs);
+  }
+
+  /**
+   * Get a single trip by ID (for permalinks).
+   * With approxDate (the trip's start time), only the days around it are searched. Without it,
+   * the trip's day is looked up in the manifest's trip index first.
+   */
+  async getTripById(params: { id: string; approxDate?: Date }): Promise<TripWithRoute | null> {
+    this.ensureInitialized();
+    const { id, approxDate } = params;
+
+    let days: string[];
+    if (approxDate) {
+      if (!Number.isFinite(approxDate.getTime())) {
+        throw new Error(`Invalid date for trip ${id}`);
+      }
+      // ±1 day covers trips crossing midnight UTC
+      days = await this.getAvailableDays(
+        new Date(approxDate.getTime() - DAY_MS),
+        new Date(approxDate.getTime() + DAY_MS)
+      );
+    } else {
+      const day = await this.getTripDay(id);
+      days = day ? [day] : [];
+    }
+    if (days.length === 0) return null;
+
+    const files = await this.registerDailyFiles(days);
+    const rows = await this.runQuery(new SqlQuery().from(files).where("id = ?", id).limit(1), {
+      kind: "getTripById",
+      files,
+    });
+    const [trip] = this.transformResults(rows);
+    return trip ?? null;
+  }
+
+  // Day of a trip from the manifest's trip index. It's sorted by ID, so the lookup
+  // reads a single row group rather than every day file.
+  private async getTripDay(id: string): Promise<string | null> {
+    const manifest = await this.loadManifest();
+    if (!manifest?.tripIndexFile) {
+      throw new Error(`No trip index at ${this.getDataSourceUrl()}, ride links need their start time`);
+    }
+
+    const { db } = this.ensureInitialized();
+    const filename = manifest.tripIndexFile;
+    await db.registerFileURL(filename, `${this.getDataSourceUrl()}/${filename}`, duckdb.DuckDBDataProtocol.HTTP, false);
+    const rows = (await this.runQuery(getTripDayQuery({ indexFile: filename, id }), {
+      kind: "getTripDay",
+      files: [filename],
+    })) as Array<{ day: string }>;
+    const day = rows[0]?.day;
+    return day && this.manifestDays?.has(day) ? day : null;
   }
 
   /**
-   * Transform DuckDB Arrow result to TripWithRoute[]
+   * Transform DuckDB Arrow rows to TripWithRoute[]
    */
-  private transformResults(result: { toArray(): unknown[] }): TripWithRoute[] {
-    const rows = result.toArray() as Array<{
+  private transformResults(result: unknown[]): TripWithRoute[] {
+    const rows = result as Array<{
       id: string;
       startStationName: string;
       endStationName: string;
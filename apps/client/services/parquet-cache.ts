@@ -0,0 +1,299 @@
+import { PARQUET_CACHE_BUDGET_BYTES } from "@/lib/config";
+
+const CACHE_DIRECTORY = "parquet-cache";
+const INDEX_FILE = "index.json";
+const OFFLINE_DAYS_STORAGE_KEY = "bikemap:offline-days";
+
+type CacheEntry = {
+  fileName: string; // file name inside the OPFS cache directory
+  bytes: number;
+  lastAccessedMs: number;
+  version: string | null; // dataset build the file came from (see getDayVersion), null for the manifest
+};
+
+// URL -> cached file
+type CacheIndex = Record<string, CacheEntry>;
+
+export type ParquetCacheUsage = {
+  bytes: number;
+  fileCount: number;
+  budgetBytes: number;
+};
+
+/**
+ * Persistent cache of data files (daily parquets and the manifest) in the
+ * Origin Private File System, so revisited days load instantly and work offline.
+ *
+ * Keyed by URL plus the dataset version it was downloaded from, so a rebuilt day is never
+ * served stale. Bounded by PARQUET_CACHE_BUDGET_BYTES with least-recently-used eviction.
+ * Every lookup misses where OPFS is unavailable (e.g. private browsing).
+ *
+ * Whole days are only downloaded once the user turns on offline days in settings -
+ * otherwise playback reads just the row groups it needs over HTTP.
+ */
+class ParquetCache {
+  private directoryPromise: Promise<FileSystemDirectoryHandle | null> | null = null;
+  private index: CacheIndex | null = null;
+  // Serializes index reads/writes across concurrent callers
+  private lock: Promise<unknown> = Promise.resolve();
+  private pendingDownloads = new Set<string>();
+
+  /**
+   * Whether days played are downloaded whole for offline use (persisted per browser)
+   */
+  isOfflineDaysEnabled(): boolean {
+    try {
+      return localStorage.getItem(OFFLINE_DAYS_STORAGE_KEY) === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  setOfflineDaysEnabled(enabled: boolean): void {
+    try {
+      localStorage.setItem(OFFLINE_DAYS_STORAGE_KEY, String(enabled));
+    } catch {
+      // Storage unavailable - the setting lasts until reload
+    }
+  }
+
+  /**
+   * Get a cached file, or null on a miss. Marks the file as recently used.
+   * A file cached from a different version is removed and counts as a miss.
+   */
+  async get(url: string, version: string | null = null): Promise<File | null> {
+    return this.withLock(async () => {
+      const directory = await this.getDirectory();
+      if (!directory) return null;
+
+      const index = await this.loadIndex(directory);
+      const entry = index[url];
+      if (!entry) return null;
+      if ((entry.version ?? null) !== version) {
+        await this.remove(directory, index, url);
+        return null;
+      }
+
+      try {
+        const handle = await directory.getFileHandle(entry.fileName);
+        const file = await handle.getFile();
+        entry.lastAccessedMs = Date.now();
+        await this.saveIndex(directory);
+        return file;
+      } catch {
+        // File was removed behind our back (e.g. storage cleared) - drop the entry
+        delete index[url];
+        await this.saveIndex(directory);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Store a file, evicting least recently used files to stay within budget.
+   */
+  async put(url: string, data: Blob, version: string | null = null): Promise<void> {
+    await this.write(url, data, data.size, version);
+  }
+
+  /**
+   * Download a whole file in the background and cache it for the next visit.
+   * The body is streamed to disk rather than held in memory; `bytes` (from the manifest)
+   * reserves room for it up front. Deduped per URL; failures are logged and otherwise ignored.
+   */
+  download(url: string, options: { bytes: number; version: string }): void {
+    if (this.pendingDownloads.has(url)) return;
+    this.pendingDownloads.add(url);
+
+    fetch(url)
+      .then((response) => {
+        if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+        return this.write(url, response.body, options.bytes, options.version);
+      })
+      .catch((error) => console.warn(`[ParquetCache] Failed to download ${url}:`, error))
+      .finally(() => this.pendingDownloads.delete(url));
+  }
+
+  /**
+   * Remove cached files that no longer belong to the current dataset, e.g. days rebuilt
+   * or dropped since they were downloaded. Files `isCurrent` rejects are deleted.
+   */
+  async removeStale(isCurrent: (url: string, version: string | null) => boolean): Promise<void> {
+    await this.withLock(async () => {
+      const directory = await this.getDirectory();
+      if (!directory) return;
+
+      const index = await this.loadIndex(directory);
+      const staleUrls = Object.entries(index)
+        .filter(([url, entry]) => !isCurrent(url, entry.version ?? null))
+        .map(([url]) => url);
+      for (const url of staleUrls) {
+        await this.remove(directory, index, url);
+      }
+      if (staleUrls.length > 0) {
+        console.log(`[ParquetCache] Removed ${staleUrls.length} stale files`);
+      }
+    });
+  }
+
+  /**
+   * Remove every cached file.
+   */
+  async clear(): Promise<void> {
+    await this.withLock(async () => {
+      const directory = await this.getDirectory();
+      if (!directory) return;
+
+      const index = await this.loadIndex(directory);
+      await this.evict(directory, index, 0, null);
+      console.log("[ParquetCache] Cleared");
+    });
+  }
+
+  async getUsage(): Promise<ParquetCacheUsage> {
+    return this.withLock(async () => {
+      const directory = await this.getDirectory();
+      const index = directory ? await this.loadIndex(directory) : {};
+      const entries = Object.values(index);
+      return {
+        bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+        fileCount: entries.length,
+        budgetBytes: PARQUET_CACHE_BUDGET_BYTES,
+      };
+    });
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  /**
+   * Write a file and add it to the index. The write itself runs outside the lock so a
+   * long download doesn't block lookups; room is reserved for `bytes` before it starts.
+   */
+  private async write(
+    url: string,
+    data: Blob | ReadableStream<Uint8Array>,
+    bytes: number,
+    version: string | null
+  ): Promise<void> {
+    if (bytes > PARQUET_CACHE_BUDGET_BYTES) {
+      if (data instanceof ReadableStream) await data.cancel();
+      return;
+    }
+
+    const directory = await this.withLock(async () => {
+      const directory = await this.getDirectory();
+      if (!directory) return null;
+      const index = await this.loadIndex(directory);
+      await this.evict(directory, index, PARQUET_CACHE_BUDGET_BYTES - bytes, url);
+      return directory;
+    });
+    if (!directory) {
+      if (data instanceof ReadableStream) await data.cancel();
+      return;
+    }
+
+    const fileName = encodeURIComponent(url);
+    try {
+      const handle = await directory.getFileHandle(fileName, { create: true });
+      const writable = await handle.createWritable();
+      if (data instanceof ReadableStream) {
+        await data.pipeTo(writable);
+      } else {
+        await writable.write(data);
+        await writable.close();
+      }
+    } catch (error) {
+      console.warn(`[ParquetCache] Failed to write ${url}:`, error);
+      await directory.removeEntry(fileName).catch(() => {});
+      return;
+    }
+
+    await this.withLock(async () => {
+      const index = await this.loadIndex(directory);
+      index[url] = { fileName, bytes, lastAccessedMs: Date.now(), version };
+      await this.saveIndex(directory);
+    });
+  }
+
+  private async remove(directory: FileSystemDirectoryHandle, index: CacheIndex, url: string): Promise<void> {
+    const entry = index[url];
+    if (!entry) return;
+    await directory.removeEntry(entry.fileName).catch(() => {});
+    delete index[url];
+    await this.saveIndex(directory);
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.catch(() => {});
+    return result;
+  }
+
+  private getDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    if (!this.directoryPromise) {
+      this.directoryPromise = (async () => {
+        if (typeof navigator === "undefined" || !navigator.storage?.getDirectory) {
+          return null;
+        }
+        try {
+          const root = await navigator.storage.getDirectory();
+          return await root.getDirectoryHandle(CACHE_DIRECTORY, { create: true });
+        } catch (error) {
+          console.warn("[ParquetCache] OPFS unavailable, caching disabled:", error);
+          return null;
+        }
+      })();
+    }
+    return this.directoryPromise;
+  }
+
+  private async loadIndex(directory: FileSystemDirectoryHandle): Promise<CacheIndex> {
+    if (this.index) return this.index;
+
+    try {
+      const handle = await directory.getFileHandle(INDEX_FILE);
+      this.index = JSON.parse(await (await handle.getFile()).text()) as CacheIndex;
+    } catch {
+      this.index = {};
+    }
+    return this.index;
+  }
+
+  private async saveIndex(directory: FileSystemDirectoryHandle): Promise<void> {
+    const handle = await directory.getFileHandle(INDEX_FILE, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(JSON.stringify(this.index ?? {}));
+    await writable.close();
+  }
+
+  /**
+   * Remove least recently used files until the cache holds at most `targetBytes`.
+   * `replacingUrl` is always removed since it's about to be overwritten.
+   */
+  private async evict(
+    directory: FileSystemDirectoryHandle,
+    index: CacheIndex,
+    targetBytes: number,
+    replacingUrl: string | null
+  ): Promise<void> {
+    const byLastAccess = Object.entries(index).sort(
+      ([urlA, a], [urlB, b]) =>
+        Number(urlB === replacingUrl) - Number(urlA === replacingUrl) ||
+        a.lastAccessedMs - b.lastAccessedMs
+    );
+    let totalBytes = byLastAccess.reduce((sum, [, entry]) => sum + entry.bytes, 0);
+
+    for (const [url, entry] of byLastAccess) {
+      if (totalBytes <= targetBytes && url !== replacingUrl) break;
+      await directory.removeEntry(entry.fileName).catch(() => {});
+      delete index[url];
+      totalBytes -= entry.bytes;
+    }
+    await this.saveIndex(directory);
+  }
+}
+
+// Singleton instance
+export const parquetCache = new ParquetCache();
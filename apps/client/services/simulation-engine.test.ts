@@ -0,0 +1,120 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { SIM_CHUNK_SIZE_MS } from "@/lib/config";
+import type { ProcessedTrip } from "@/lib/trip-types";
+import type { MemoryUsage } from "@/services/batch-memory";
+import { SimulationEngine } from "@/services/simulation-engine";
+import { TripDataService } from "@/services/trip-data-service";
+import { ANY_TRIP_FILTER, createFixtureDataset, makeTrip, type FixtureDataset } from "@/test/fixtures";
+
+const WINDOW_START = "2025-06-05T12:00:00Z";
+// One chunk per real second
+const SPEEDUP = SIM_CHUNK_SIZE_MS / 1000;
+
+function minutes(count: number): number {
+  return count * 60 * 1000;
+}
+
+function ids(trips: ProcessedTrip[]): string[] {
+  return trips.map((trip) => trip.id).sort();
+}
+
+function visibleIds(): string[] {
+  return ids(engine.getTrips().filter((trip) => trip.isVisible));
+}
+
+let fixture: FixtureDataset;
+let engine: SimulationEngine;
+
+beforeAll(async () => {
+  fixture = await createFixtureDataset([
+    makeTrip("in-progress", "2025-06-05T11:55:00Z", 10), // until 0:05
+    makeTrip("early", "2025-06-05T12:01:00Z", 3), // until 0:04
+    makeTrip("later", "2025-06-05T12:08:00Z"),
+    makeTrip("next-batch", "2025-06-05T12:40:00Z"),
+  ]);
+});
+
+afterAll(async () => {
+  await fixture.cleanup();
+});
+
+afterEach(() => {
+  engine?.terminate();
+});
+
+function createEngine(): SimulationEngine {
+  return new SimulationEngine({
+    realWindowStartMs: Date.parse(WINDOW_START),
+    animationStartDate: new Date(WINDOW_START),
+    speedup: SPEEDUP,
+    filter: ANY_TRIP_FILTER,
+    createTripSource: (config) => new TripDataService({ ...config, database: fixture.database }),
+  });
+}
+
+// Step like a view would, one chunk at a time, letting chunk loads settle in between
+async function playChunks(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    engine.step(1000);
+    await engine.whenIdle();
+  }
+}
+
+describe("SimulationEngine", () => {
+  test("starts at sim time 0 with the first chunks loaded", async () => {
+    engine = createEngine();
+    const published: string[][] = [];
+    engine.on("trips", (trips) => published.push(ids(trips)));
+    await engine.init();
+
+    expect(engine.getSimTimeMs()).toBe(0);
+    expect(ids(engine.getTrips())).toEqual(["early", "in-progress"]);
+    expect(published.at(-1)).toEqual(["early", "in-progress"]);
+    expect(visibleIds()).toEqual(["in-progress"]);
+  });
+
+  test("loads upcoming trips and drops passed ones while playing", async () => {
+    engine = createEngine();
+    const memory: MemoryUsage[] = [];
+    engine.on("memory", (usage) => memory.push(usage));
+    await engine.init();
+
+    await playChunks(8);
+    expect(engine.getSimTimeMs()).toBe(minutes(8));
+    expect(ids(engine.getTrips())).toEqual(["later"]);
+    expect(engine.getVisibleCount()).toBe(1);
+    expect(memory.length).toBeGreaterThan(0);
+    expect(memory.at(-1)!.mainThreadBytes).toBeGreaterThan(0);
+
+    await playChunks(32);
+    expect(ids(engine.getTrips())).toEqual(["next-batch"]);
+  });
+
+  test("seeks within loaded batches only", async () => {
+    engine = createEngine();
+    await engine.init();
+
+    expect(await engine.seek(minutes(9))).toBe(true);
+    expect(engine.getSimTimeMs()).toBe(minutes(9));
+    expect(visibleIds()).toEqual(["later"]);
+
+    expect(await engine.seek(minutes(240))).toBe(false);
+    expect(engine.getSimTimeMs()).toBe(minutes(9));
+  });
+
+  test("reloads trips when playing backward", async () => {
+    engine = createEngine();
+    await engine.init();
+    await playChunks(10);
+    expect(ids(engine.getTrips())).toEqual(["later"]);
+
+    engine.setSpeedup(-SPEEDUP);
+    await engine.whenIdle();
+    for (let i = 0; i < 8; i++) {
+      engine.step(1000);
+      await engine.whenIdle();
+    }
+    expect(engine.getSimTimeMs()).toBe(minutes(2));
+    expect(visibleIds()).toEqual(["early", "in-progress"]);
+  });
+});
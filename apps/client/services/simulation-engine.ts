@@ -0,0 +1,655 @@
+import {
+  CHUNKS_PER_BATCH,
+  COLORS,
+  NUM_PAST_BATCHES,
+  REAL_COLOR_TRANSITION_MS,
+  REAL_FADE_DURATION_MS,
+  SIM_CHUNK_SIZE_MS,
+  SIM_HEXBIN_WINDOW_MS,
+  SIM_STATION_ACTIVITY_WINDOW_MS,
+} from "@/lib/config";
+import type { TripFilter } from "@/lib/trip-filters";
+import { getFadeBoundaries } from "@/lib/trip-timing";
+import type { Phase, PlaybackDirection, ProcessedTrip, RealTimeRange } from "@/lib/trip-types";
+import type { MemoryUsage } from "@/services/batch-memory";
+import { StationActivityTracker, type StationActivity } from "@/services/station-activity";
+import { TripDataService, type TripDataServiceConfig } from "@/services/trip-data-service";
+
+// Max alpha of bike heads and paths (shared with the GPU layers)
+export const MAX_ALPHA = 0.8 * 255;
+export const PATH_OPACITY = 180;
+
+export const getBikeColor = (d: ProcessedTrip) => (d.bikeType === "electric_bike" ? COLORS.electric : COLORS.classic);
+
+/**
+ * The parts of TripDataService the engine uses.
+ * Scripts and tests can pass their own source instead of the DuckDB + worker pipeline.
+ */
+export type TripSource = Pick<
+  TripDataService,
+  | "init"
+  | "requestChunk"
+  | "getPrefetchPlan"
+  | "getTripLookbackMs"
+  | "getBufferHealth"
+  | "prefetchBatches"
+  | "clearBatch"
+  | "setFadeDuration"
+  | "isBatchLoaded"
+  | "setMainThreadBytes"
+  | "getMemoryUsage"
+  | "terminate"
+>;
+
+export interface SimulationEngineConfig {
+  realWindowStartMs: number;
+  animationStartDate: Date;
+  speedup: number;
+  filter: TripFilter;
+  memoryBudgetBytes?: number;
+  createTripSource?: (config: TripDataServiceConfig) => TripSource;
+}
+
+export type SimulationEngineEvents = {
+  trips: ProcessedTrip[]; // active trips changed (loaded or dropped) - once per chunk, not per frame
+  time: number; // sim time changed
+  "buffer-health": number; // see TripDataService.getBufferHealth
+  error: string | null; // data loading failed (null: recovered)
+  "rides-skipped": RealTimeRange; // rides in this range failed to process, playback continues without them
+  memory: MemoryUsage; // after each chunk update
+};
+
+type Listener<T> = (value: T) => void;
+
+/**
+ * Framework-independent simulation: owns the trip source, the active trips and the sim clock.
+ * Loads chunks as time passes, prefetches batches ahead and drops trips behind the playhead.
+ *
+ * Lifecycle: new SimulationEngine(config) → init() → step()/seek() → terminate()
+ * Nothing runs on its own - a view steps it (BikeMap from requestAnimationFrame), scripts step it
+ * with fixed deltas and await whenIdle() between steps for deterministic results.
+ */
+export class SimulationEngine {
+  private readonly service: TripSource;
+  private speedup: number;
+  private simTimeMs = 0;
+  private isReady = false;
+  private terminated = false;
+
+  private tripMap = new Map<string, ProcessedTrip>();
+  private stationActivity = new StationActivityTracker(Math.max(SIM_STATION_ACTIVITY_WINDOW_MS, SIM_HEXBIN_WINDOW_MS));
+  private visibleCount = 0;
+  // Chunks requested from the worker, per playback direction (forward: by fade-in, backward: by fade-out)
+  private loadingChunks: Record<PlaybackDirection, Set<number>> = { forward: new Set(), backward: new Set() };
+  private loadedChunks: Record<PlaybackDirection, Set<number>> = { forward: new Set(), backward: new Set() };
+  private pendingLoads = new Set<Promise<void>>();
+  private lastChunk = -1;
+  private lastDirection: PlaybackDirection = "forward"; // init() loads forward
+
+  private listeners = new Map<keyof SimulationEngineEvents, Set<Listener<unknown>>>();
+
+  constructor(config: SimulationEngineConfig) {
+    const { createTripSource = (serviceConfig) => new TripDataService(serviceConfig) } = config;
+    this.speedup = config.speedup;
+    this.service = createTripSource({
+      realWindowStartMs: config.realWindowStartMs,
+      animationStartDate: config.animationStartDate,
+      realFadeDurationMs: this.getRealFadeDurationMs(),
+      filter: config.filter,
+      memoryBudgetBytes: config.memoryBudgetBytes,
+      onError: (error) => this.emit("error", error),
+      onRidesSkipped: (realFromMs, realToMs) => this.emit("rides-skipped", { realFromMs, realToMs }),
+    });
+  }
+
+  /**
+   * Load the first chunks and start at sim time 0.
+   */
+  async init(): Promise<void> {
+    const initialTrips = await this.service.init();
+    if (this.terminated) return;
+
+    // Playback starts at sim time 0
+    for (const trip of initialTrips.values()) {
+      trip.simViewerFirstSeenMs = 0;
+      this.stationActivity.record(trip);
+    }
+    this.tripMap = initialTrips;
+    for (let i = 0; i <= 2; i++) {
+      this.loadedChunks.forward.add(i);
+    }
+    this.lastChunk = 0;
+    this.isReady = true;
+
+    this.setTime(0);
+    this.publishTrips();
+  }
+
+  /**
+   * Subscribe to an event. Returns the unsubscribe function.
+   */
+  on<K extends keyof SimulationEngineEvents>(event: K, listener: Listener<SimulationEngineEvents[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as Listener<unknown>);
+    return () => {
+      listeners.delete(listener as Listener<unknown>);
+    };
+  }
+
+  getSimTimeMs(): number {
+    return this.simTimeMs;
+  }
+
+  getSpeedup(): number {
+    return this.speedup;
+  }
+
+  getRealFadeDurationMs(): number {
+    return REAL_FADE_DURATION_MS * Math.abs(this.speedup);
+  }
+
+  getTrips(): ProcessedTrip[] {
+    return Array.from(this.tripMap.values());
+  }
+
+  getTrip(id: string): ProcessedTrip | undefined {
+    return this.tripMap.get(id);
+  }
+
+  /**
+   * Departures and arrivals per station over a window of sim time behind the playhead
+   * (at most the longer of SIM_STATION_ACTIVITY_WINDOW_MS and SIM_HEXBIN_WINDOW_MS).
+   * Walks every recorded trip - sample it, don't call it every frame.
+   */
+  getStationActivity(simWindowMs = SIM_STATION_ACTIVITY_WINDOW_MS): StationActivity[] {
+    return this.stationActivity.compute(this.simTimeMs, this.speedup < 0 ? "backward" : "forward", simWindowMs);
+  }
+
+  /**
+   * Visible trips with their positions updated for the current time (for density views like the heatmap).
+   * Positions are otherwise only computed on the GPU - sample this, don't call it every frame.
+   */
+  getVisibleTrips(): ProcessedTrip[] {
+    const realFadeDurationMs = this.getRealFadeDurationMs();
+    const trips: ProcessedTrip[] = [];
+    for (const trip of this.tripMap.values()) {
+      if (updateTripState(trip, this.simTimeMs, realFadeDurationMs)) {
+        trips.push(trip);
+      }
+    }
+    return trips;
+  }
+
+  // Trips visible at the current time (isVisible is kept up to date for all active trips)
+  getVisibleCount(): number {
+    return this.visibleCount;
+  }
+
+  /**
+   * Update a trip's position, bearing and colors for the current time (see updateTripState).
+   * Everything else is animated on the GPU, so views only do this for trips they follow.
+   */
+  updateTrip(id: string): ProcessedTrip | undefined {
+    const trip = this.tripMap.get(id);
+    if (trip) {
+      updateTripState(trip, this.simTimeMs, this.getRealFadeDurationMs());
+    }
+    return trip;
+  }
+
+  /**
+   * Advance the sim clock by real elapsed time at the current speed.
+   */
+  step(realDeltaMs: number): void {
+    this.setTime(this.simTimeMs + realDeltaMs * this.speedup);
+  }
+
+  /**
+   * Set the sim clock. Crossing into a new chunk loads upcoming trips and drops passed ones.
+   */
+  setTime(simTimeMs: number): void {
+    this.simTimeMs = simTimeMs;
+    this.updateChunks();
+    this.updateVisibility();
+    this.emit("time", simTimeMs);
+  }
+
+  /**
+   * Change speed without reloading: re-times fades of loaded trips, and reloads chunks when the direction flips.
+   */
+  setSpeedup(speedup: number): void {
+    const realFadeDurationMs = this.getRealFadeDurationMs();
+    this.speedup = speedup;
+    if (this.getRealFadeDurationMs() !== realFadeDurationMs) {
+      this.service.setFadeDuration(this.getRealFadeDurationMs());
+      for (const trip of this.tripMap.values()) {
+        Object.assign(trip, getFadeBoundaries(trip.simStartTimeMs, trip.simEndTimeMs, this.getRealFadeDurationMs()));
+      }
+      this.updateVisibility();
+      this.publishTrips();
+    }
+    this.updateChunks();
+  }
+
+  /**
+   * Seek to a sim time within the batches the worker still holds.
+   * Resolves false if the target is outside them - the caller has to start over from there.
+   */
+  async seek(targetSimMs: number): Promise<boolean> {
+    if (!this.isReady) return false;
+    const currentSimMs = this.simTimeMs;
+
+    // Chunks whose trips can be visible at the target. Forward, trips that started before now
+    // are already loaded; backward, anything in the target's lookback may be missing.
+    const isForward = targetSimMs >= currentSimMs;
+    const simLookbackMs = isForward ? 0 : await this.service.getTripLookbackMs(targetSimMs);
+    if (this.terminated) return true;
+    const fromChunk = getChunkIndex(isForward ? currentSimMs : targetSimMs - simLookbackMs);
+    const targetChunk = getChunkIndex(targetSimMs);
+    const toChunk = targetChunk + 1;
+    const currentBatch = Math.floor(getChunkIndex(currentSimMs) / CHUNKS_PER_BATCH);
+    const targetBatch = Math.floor(targetChunk / CHUNKS_PER_BATCH);
+
+    const lastBatch = Math.floor(toChunk / CHUNKS_PER_BATCH);
+    for (let batchId = Math.floor(fromChunk / CHUNKS_PER_BATCH); batchId <= lastBatch; batchId++) {
+      if (!this.service.isBatchLoaded(batchId)) return false;
+    }
+
+    // Request again even if loaded before - trips behind the playhead have been dropped
+    const chunkLoads: Promise<void>[] = [];
+    for (let chunkIndex = fromChunk; chunkIndex <= toChunk; chunkIndex++) {
+      this.loadedChunks.forward.delete(chunkIndex);
+      chunkLoads.push(this.loadUpcomingRides(chunkIndex, "forward", targetSimMs));
+    }
+    await Promise.all(chunkLoads);
+    if (this.terminated) return true;
+
+    // Trips the viewer hasn't seen yet fade in from the target, not from when they were loaded
+    for (const trip of this.tripMap.values()) {
+      if (currentSimMs < trip.simVisibleStartMs || currentSimMs > trip.simVisibleEndMs) {
+        trip.simViewerFirstSeenMs = targetSimMs;
+      }
+    }
+
+    // Skipped batches are no longer needed (chunk updates only clear one per chunk)
+    for (let batchId = Math.min(currentBatch, targetBatch); batchId <= Math.max(currentBatch, targetBatch); batchId++) {
+      if (Math.abs(batchId - targetBatch) > NUM_PAST_BATCHES) {
+        this.service.clearBatch(batchId);
+      }
+    }
+    this.setTime(targetSimMs);
+    // The target may be in the current chunk, which doesn't republish
+    this.publishTrips();
+    return true;
+  }
+
+  /**
+   * Resolves once all chunk requests made so far have settled (for stepping from scripts).
+   */
+  async whenIdle(): Promise<void> {
+    while (this.pendingLoads.size > 0) {
+      await Promise.allSettled(this.pendingLoads);
+    }
+  }
+
+  /**
+   * Stop the trip source and drop all listeners.
+   */
+  terminate(): void {
+    this.terminated = true;
+    this.isReady = false;
+    this.service.terminate();
+    this.tripMap.clear();
+    this.stationActivity.clear();
+    this.listeners.clear();
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  private emit<K extends keyof SimulationEngineEvents>(event: K, value: SimulationEngineEvents[K]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(value));
+  }
+
+  private publishTrips(): void {
+    this.emit("trips", this.getTrips());
+  }
+
+  // Trips are views into their chunk's transferred buffers - a chunk's buffers stay alive while any of its trips is held
+  private getRetainedBytes(): number {
+    const buffers = new Set<ArrayBufferLike>();
+    for (const trip of this.tripMap.values()) {
+      buffers.add(trip.positions.buffer);
+      buffers.add(trip.simTimestampsMs.buffer);
+      buffers.add(trip.cumulativeDistances.buffer);
+    }
+    let bytes = 0;
+    for (const buffer of buffers) {
+      bytes += buffer.byteLength;
+    }
+    return bytes;
+  }
+
+  private updateVisibility(): void {
+    let count = 0;
+    for (const trip of this.tripMap.values()) {
+      trip.isVisible = this.simTimeMs >= trip.simVisibleStartMs && this.simTimeMs <= trip.simVisibleEndMs;
+      if (trip.isVisible) count++;
+    }
+    this.visibleCount = count;
+  }
+
+  // On chunk or direction change: load chunks from the worker, prefetch batches, cleanup old trips
+  private updateChunks(): void {
+    if (!this.isReady) return;
+    const simTimeMs = this.simTimeMs;
+    const currentChunk = getChunkIndex(simTimeMs);
+    const direction: PlaybackDirection = this.speedup < 0 ? "backward" : "forward";
+    const directionChanged = direction !== this.lastDirection;
+    if (currentChunk === this.lastChunk && !directionChanged) return;
+
+    this.lastChunk = currentChunk;
+    this.lastDirection = direction;
+    const step = direction === "forward" ? 1 : -1;
+
+    // Trips dropped while playing the other way have to be requested again
+    if (directionChanged) {
+      this.loadedChunks.forward.clear();
+      this.loadedChunks.backward.clear();
+    }
+
+    // Load this chunk and next chunk (in the playing direction) from worker
+    this.loadUpcomingRides(currentChunk, direction);
+    this.loadUpcomingRides(currentChunk + step, direction);
+
+    // Prefetch upcoming batches - how far ahead and how early depends on speed and measured load times
+    const currentBatch = Math.floor(currentChunk / CHUNKS_PER_BATCH);
+    const chunkInBatch = ((currentChunk % CHUNKS_PER_BATCH) + CHUNKS_PER_BATCH) % CHUNKS_PER_BATCH;
+    const chunksIntoBatch = direction === "forward" ? chunkInBatch : CHUNKS_PER_BATCH - 1 - chunkInBatch;
+    const { lookaheadBatches, thresholdChunks, batchesPerQuery } = this.service.getPrefetchPlan(this.speedup);
+    if (chunksIntoBatch >= thresholdChunks) {
+      const batchIds = Array.from({ length: lookaheadBatches }, (_, i) => currentBatch + step * (i + 1));
+      this.service.prefetchBatches(batchIds, batchesPerQuery);
+    }
+    this.emit("buffer-health", this.service.getBufferHealth(simTimeMs, this.speedup));
+
+    // Clear the batch that just fell out of the kept past batches from worker memory
+    this.service.clearBatch(currentBatch - step * (NUM_PAST_BATCHES + 1));
+
+    // Remove trips behind the playhead (fully faded out in the playing direction)
+    for (const [id, trip] of this.tripMap) {
+      const isBehind = direction === "forward" ? trip.simVisibleEndMs < simTimeMs : trip.simVisibleStartMs > simTimeMs;
+      if (isBehind) {
+        this.tripMap.delete(id);
+      }
+    }
+    this.stationActivity.prune(simTimeMs, direction);
+    this.service.setMainThreadBytes(this.getRetainedBytes());
+    this.emit("memory", this.service.getMemoryUsage());
+
+    this.publishTrips();
+  }
+
+  // Load rides that become visible in a specific chunk when playing in the given direction (from worker).
+  // simFirstSeenMs: sim time the viewer first sees the new trips at (defaults to the current time)
+  private loadUpcomingRides(
+    chunkIndex: number,
+    direction: PlaybackDirection = "forward",
+    simFirstSeenMs?: number
+  ): Promise<void> {
+    const loaded = this.loadedChunks[direction];
+    const loading = this.loadingChunks[direction];
+    if (loaded.has(chunkIndex) || loading.has(chunkIndex)) {
+      return Promise.resolve();
+    }
+
+    loading.add(chunkIndex);
+
+    const load = (async () => {
+      try {
+        // Request pre-processed trips from service
+        const trips = await this.service.requestChunk(chunkIndex, direction);
+        if (this.terminated) return;
+
+        // Add to map (dedupes by ID - keep existing objects, they hold per-frame state)
+        const simAddedMs = simFirstSeenMs ?? this.simTimeMs;
+        for (const trip of trips) {
+          if (!this.tripMap.has(trip.id)) {
+            trip.simViewerFirstSeenMs = simAddedMs;
+            this.tripMap.set(trip.id, trip);
+            this.stationActivity.record(trip);
+          }
+        }
+
+        loaded.add(chunkIndex);
+      } finally {
+        loading.delete(chunkIndex);
+      }
+    })();
+
+    this.pendingLoads.add(load);
+    load.finally(() => this.pendingLoads.delete(load)).catch(() => {});
+    return load;
+  }
+}
+
+// Get chunk index from simulation time (ms)
+function getChunkIndex(simTimeMs: number): number {
+  return Math.floor(simTimeMs / SIM_CHUNK_SIZE_MS);
+}
+
+// Interpolate between two angles, handling 360°/0° wrapping
+function interpolateAngle(from: number, to: number, factor: number): number {
+  from = ((from % 360) + 360) % 360;
+  to = ((to % 360) + 360) % 360;
+  let diff = to - from;
+  if (diff > 180) diff -= 360;
+  if (diff < -180) diff += 360;
+  return ((from + diff * factor) % 360 + 360) % 360;
+}
+
+// Update trip's mutable state in place. Returns true if visible.
+export function updateTripState(
+  trip: ProcessedTrip,
+  simTimeMs: number,
+  realFadeDurationMs: number
+): boolean {
+  const {
+    positions,
+    simVisibleStartMs,
+    simVisibleEndMs,
+    simFadeInEndMs,
+    simEndTimeMs,
+    firstSegmentBearing,
+    lastSegmentBearing,
+  } = trip;
+
+  // Not visible yet or already gone
+  if (simTimeMs < simVisibleStartMs || simTimeMs > simVisibleEndMs) {
+    trip.isVisible = false;
+    return false;
+  }
+
+  // Viewer sees the trip from when it was loaded, or from its fade-in if loaded earlier (same as TripFadeExtension)
+  const simFirstSeenMs = Math.min(Math.max(trip.simViewerFirstSeenMs ?? simTimeMs, simVisibleStartMs), simVisibleEndMs);
+
+  // Calculate viewer fade progress (0 to 1, clamped) - used as alpha multiplier
+  // (abs: in reverse playback time moves away from the first-seen time in the other direction)
+  const viewerFadeProgress = Math.min(1, Math.abs(simTimeMs - simFirstSeenMs) / realFadeDurationMs);
+
+  // Determine timeline phase and progress using precomputed boundaries
+  let phase: Phase;
+  let phaseProgress: number;
+
+  if (simTimeMs < simFadeInEndMs) {
+    phase = "fading-in";
+    phaseProgress = (simTimeMs - simVisibleStartMs) / realFadeDurationMs;
+  } else if (simTimeMs >= simEndTimeMs) {
+    phase = "fading-out";
+    phaseProgress = (simTimeMs - simEndTimeMs) / realFadeDurationMs;
+  } else {
+    phase = "moving";
+    phaseProgress = 1;
+  }
+
+  // Fast path for stationary phases - skip expensive look-ahead calculation
+  if (phase === "fading-in") {
+    trip.currentPosition[0] = positions[0];
+    trip.currentPosition[1] = positions[1];
+    trip.currentBearing = interpolateAngle(0, firstSegmentBearing, phaseProgress);
+    trip.currentPhase = phase;
+    trip.currentPhaseProgress = phaseProgress;
+    trip.isVisible = true;
+    computeTripColors(trip, viewerFadeProgress, 0, 1); // movingTimeMs and colorTransitionMs unused in fading-in
+    return true;
+  }
+
+  if (phase === "fading-out") {
+    trip.currentPosition[0] = positions[positions.length - 2];
+    trip.currentPosition[1] = positions[positions.length - 1];
+    trip.currentBearing = lastSegmentBearing;
+    trip.currentPhase = phase;
+    trip.currentPhaseProgress = phaseProgress;
+    trip.isVisible = true;
+    computeTripColors(trip, viewerFadeProgress, 0, 1); // movingTimeMs and colorTransitionMs unused in fading-out
+    return true;
+  }
+
+  // Moving phase: interpolate along route with look-ahead bearing
+  const { simTimestampsMs, cumulativeDistances } = trip;
+  const simMovingDurationMs = simEndTimeMs - simFadeInEndMs;
+  const movingProgress = simMovingDurationMs > 0
+    ? Math.max(0, Math.min(1, (simTimeMs - simFadeInEndMs) / simMovingDurationMs))
+    : 1;
+
+  // Map to timestamp along route
+  const simTripTimeMs = simTimestampsMs[0] + movingProgress * (simTimestampsMs[simTimestampsMs.length - 1] - simTimestampsMs[0]);
+
+  // Use cached index and scan from there - backward when time decreases (reverse playback, seeking)
+  let idx = trip.lastSegmentIndex;
+  while (idx > 0 && simTimestampsMs[idx] > simTripTimeMs) {
+    idx--;
+  }
+  while (idx < simTimestampsMs.length - 1 && simTimestampsMs[idx + 1] < simTripTimeMs) {
+    idx++;
+  }
+  trip.lastSegmentIndex = idx;
+
+  // positions is flat [lng, lat, ...], vertex i is at i * 2
+  const vertexCount = positions.length / 2;
+  let t = 0;
+  if (idx >= vertexCount - 1) {
+    trip.currentPosition[0] = positions[positions.length - 2];
+    trip.currentPosition[1] = positions[positions.length - 1];
+  } else {
+    const t0 = simTimestampsMs[idx];
+    const t1 = simTimestampsMs[idx + 1];
+    t = t1 > t0 ? (simTripTimeMs - t0) / (t1 - t0) : 0;
+
+    const p0 = idx * 2;
+    const p1 = p0 + 2;
+    trip.currentPosition[0] = positions[p0] + t * (positions[p1] - positions[p0]);
+    trip.currentPosition[1] = positions[p0 + 1] + t * (positions[p1 + 1] - positions[p0 + 1]);
+  }
+
+  // Calculate bearing using look-ahead point (~20m ahead)
+  const cumDist = cumulativeDistances;
+  const currentDist = cumDist[idx] + t * ((cumDist[idx + 1] ?? cumDist[idx]) - cumDist[idx]);
+  const totalDist = cumDist[cumDist.length - 1];
+  const lookAheadDist = Math.min(currentDist + 20, totalDist);
+
+  // Find look-ahead position (start from current idx since look-ahead is only ~20m ahead)
+  let laIdx = idx;
+  while (laIdx < cumDist.length - 1 && cumDist[laIdx + 1] < lookAheadDist) {
+    laIdx++;
+  }
+
+  // Interpolate look-ahead point
+  const laD0 = cumDist[laIdx];
+  const laD1 = cumDist[laIdx + 1] ?? laD0;
+  const laFrac = laD1 > laD0 ? (lookAheadDist - laD0) / (laD1 - laD0) : 0;
+  const laP0 = laIdx * 2;
+  const laP1 = laIdx < vertexCount - 1 ? laP0 + 2 : laP0;
+  const lookAheadX = positions[laP0] + laFrac * (positions[laP1] - positions[laP0]);
+  const lookAheadY = positions[laP0 + 1] + laFrac * (positions[laP1 + 1] - positions[laP0 + 1]);
+
+  // Calculate bearing from current position to look-ahead point
+  const dx = lookAheadX - trip.currentPosition[0];
+  const dy = lookAheadY - trip.currentPosition[1];
+  trip.currentBearing = Math.atan2(dx, dy) * (180 / Math.PI);
+
+  // Update phase state
+  trip.currentPhase = phase;
+  trip.currentPhaseProgress = phaseProgress;
+  trip.isVisible = true;
+  const movingTimeMs = simTimeMs - simFadeInEndMs;
+  const colorTransitionMs = REAL_COLOR_TRANSITION_MS * (realFadeDurationMs / REAL_FADE_DURATION_MS); // scale with speedup
+  computeTripColors(trip, viewerFadeProgress, movingTimeMs, colorTransitionMs);
+
+  return true;
+}
+
+// Compute colors in-place based on current phase, progress, and viewer fade
+// movingTimeMs: time since movement started (for color transition during moving phase)
+// colorTransitionMs: duration for color transition (green -> bike color)
+function computeTripColors(trip: ProcessedTrip, viewerFadeProgress: number, movingTimeMs: number, colorTransitionMs: number): void {
+  const bikeColor = getBikeColor(trip);
+  const phase = trip.currentPhase;
+  const progress = trip.currentPhaseProgress;
+
+  let r: number, g: number, b: number;
+  let headAlpha: number, pathAlpha: number;
+
+  switch (phase) {
+    case "fading-in":
+      // Fade in to 100% green
+      r = COLORS.fadeIn[0];
+      g = COLORS.fadeIn[1];
+      b = COLORS.fadeIn[2];
+      headAlpha = progress * MAX_ALPHA;
+      pathAlpha = progress * PATH_OPACITY;
+      break;
+    case "fading-out": {
+      // First 25%: bike color -> red, then stay red
+      const colorTransitionEnd = 0.25;
+      if (progress < colorTransitionEnd) {
+        const colorProgress = progress / colorTransitionEnd;
+        r = bikeColor[0] + (COLORS.fadeOut[0] - bikeColor[0]) * colorProgress;
+        g = bikeColor[1] + (COLORS.fadeOut[1] - bikeColor[1]) * colorProgress;
+        b = bikeColor[2] + (COLORS.fadeOut[2] - bikeColor[2]) * colorProgress;
+      } else {
+        r = COLORS.fadeOut[0];
+        g = COLORS.fadeOut[1];
+        b = COLORS.fadeOut[2];
+      }
+      headAlpha = (1 - progress) * MAX_ALPHA;
+      pathAlpha = (1 - progress) * PATH_OPACITY;
+      break;
+    }
+    default: {
+      // Moving: transition from green to bike color
+      const colorProgress = Math.min(1, movingTimeMs / colorTransitionMs);
+      r = COLORS.fadeIn[0] + (bikeColor[0] - COLORS.fadeIn[0]) * colorProgress;
+      g = COLORS.fadeIn[1] + (bikeColor[1] - COLORS.fadeIn[1]) * colorProgress;
+      b = COLORS.fadeIn[2] + (bikeColor[2] - COLORS.fadeIn[2]) * colorProgress;
+      headAlpha = MAX_ALPHA;
+      pathAlpha = PATH_OPACITY;
+    }
+  }
+
+  // Head and path always match
+  trip.currentHeadColor[0] = r;
+  trip.currentHeadColor[1] = g;
+  trip.currentHeadColor[2] = b;
+  trip.currentHeadColor[3] = headAlpha * viewerFadeProgress;
+
+  trip.currentPathColor[0] = r;
+  trip.currentPathColor[1] = g;
+  trip.currentPathColor[2] = b;
+  trip.currentPathColor[3] = pathAlpha * viewerFadeProgress;
+}
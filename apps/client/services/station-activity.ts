@@ -0,0 +1,79 @@
+import type { PlaybackDirection, ProcessedTrip } from "@/lib/trip-types";
+
+export type StationActivity = {
+  stationName: string;
+  departures: number;
+  arrivals: number;
+};
+
+type StationEvents = {
+  startStationName: string;
+  endStationName: string;
+  simStartTimeMs: number;
+  simEndTimeMs: number;
+};
+
+/**
+ * Departures and arrivals per station over rolling windows of sim time, behind the playhead.
+ * Trips are recorded as they're loaded and kept until both their events have left the longest window -
+ * the engine drops trips once they fade out, long before that.
+ * Only trips loaded since the last seek count, so the window fills in as playback runs.
+ */
+export class StationActivityTracker {
+  private readonly simRetentionMs: number;
+  private trips = new Map<string, StationEvents>();
+
+  // simRetentionMs: the longest window compute() is called with
+  constructor(simRetentionMs: number) {
+    this.simRetentionMs = simRetentionMs;
+  }
+
+  record(trip: ProcessedTrip): void {
+    if (this.trips.has(trip.id)) return;
+    this.trips.set(trip.id, {
+      startStationName: trip.startStationName,
+      endStationName: trip.endStationName,
+      simStartTimeMs: trip.simStartTimeMs,
+      simEndTimeMs: trip.simEndTimeMs,
+    });
+  }
+
+  // Forget trips whose departure and arrival are both behind the window in the playing direction
+  prune(simTimeMs: number, direction: PlaybackDirection): void {
+    for (const [id, trip] of this.trips) {
+      const isBehind =
+        direction === "forward"
+          ? trip.simEndTimeMs <= simTimeMs - this.simRetentionMs
+          : trip.simStartTimeMs >= simTimeMs + this.simRetentionMs;
+      if (isBehind) {
+        this.trips.delete(id);
+      }
+    }
+  }
+
+  // Stations with at least one departure or arrival in the window, in no particular order
+  compute(simTimeMs: number, direction: PlaybackDirection, simWindowMs: number): StationActivity[] {
+    const [simFromMs, simToMs] =
+      direction === "forward" ? [simTimeMs - simWindowMs, simTimeMs] : [simTimeMs, simTimeMs + simWindowMs];
+    const isInWindow = (simMs: number) => simMs > simFromMs && simMs <= simToMs;
+
+    const activity = new Map<string, StationActivity>();
+    const get = (stationName: string) => {
+      let station = activity.get(stationName);
+      if (!station) {
+        station = { stationName, departures: 0, arrivals: 0 };
+        activity.set(stationName, station);
+      }
+      return station;
+    };
+    for (const trip of this.trips.values()) {
+      if (isInWindow(trip.simStartTimeMs)) get(trip.startStationName).departures++;
+      if (isInWindow(trip.simEndTimeMs)) get(trip.endStationName).arrivals++;
+    }
+    return Array.from(activity.values());
+  }
+
+  clear(): void {
+    this.trips.clear();
+  }
+}
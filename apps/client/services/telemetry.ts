@@ -0,0 +1,128 @@
+import type { PlaybackDirection } from "@/lib/trip-types";
+
+// Records kept per kind (oldest dropped first)
+const MAX_RECORDS = 200;
+// Frame times kept for percentiles (~10s at 60 FPS)
+const MAX_FRAMES = 600;
+
+export type QueryRecord = {
+  kind: string; // DuckDBService method
+  realStartedAtMs: number; // wall clock (Date.now())
+  durationMs: number;
+  rowCount: number;
+  fileCount: number;
+  httpReads: number; // block reads DuckDB made over HTTP (range requests)
+  httpBytes: number; // estimated: reads × DuckDB block size
+};
+
+export type BatchRecord = {
+  batchIds: number[];
+  realStartedAtMs: number;
+  fetchMs: number; // DuckDB queries, including retries
+  processMs: number; // worker processing
+  tripCount: number; // fetched, before the worker's filtering
+  queued: boolean; // started while other batches were loading
+};
+
+export type ChunkRecord = {
+  chunkIndex: number;
+  direction: PlaybackDirection;
+  latencyMs: number; // request to trips received, including waiting for batches
+  tripCount: number;
+};
+
+export type Percentiles = { p50: number; p95: number; p99: number; max: number };
+
+export type TelemetrySummary = {
+  frameMs: Percentiles | null;
+  chunkLatencyMs: Percentiles | null;
+  queryMs: Percentiles | null;
+  httpReads: number;
+  httpBytes: number;
+  workerQueueDepth: number;
+  maxWorkerQueueDepth: number;
+  recentBatches: BatchRecord[];
+};
+
+function getPercentiles(values: ArrayLike<number>): Percentiles | null {
+  if (values.length === 0) return null;
+  const sorted = Float64Array.from(values).sort();
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return { p50: at(0.5), p95: at(0.95), p99: at(0.99), max: sorted[sorted.length - 1] };
+}
+
+function pushBounded<T>(records: T[], record: T): void {
+  records.push(record);
+  if (records.length > MAX_RECORDS) records.shift();
+}
+
+/**
+ * Data loading and rendering timings for the diagnostics overlay and bug reports.
+ * Always recording (cheap, bounded), so an export taken after noticing a problem includes it.
+ */
+class Telemetry {
+  private queries: QueryRecord[] = [];
+  private batches: BatchRecord[] = [];
+  private chunks: ChunkRecord[] = [];
+  private frameTimes = new Float32Array(MAX_FRAMES);
+  private frameCount = 0;
+  private httpReads = 0;
+  private httpBytes = 0;
+  private workerQueueDepth = 0;
+  private maxWorkerQueueDepth = 0;
+
+  recordQuery(record: QueryRecord): void {
+    pushBounded(this.queries, record);
+    this.httpReads += record.httpReads;
+    this.httpBytes += record.httpBytes;
+  }
+
+  recordBatch(record: BatchRecord): void {
+    pushBounded(this.batches, record);
+  }
+
+  recordChunk(record: ChunkRecord): void {
+    pushBounded(this.chunks, record);
+  }
+
+  // Real ms between animation frames
+  recordFrame(realFrameMs: number): void {
+    this.frameTimes[this.frameCount % MAX_FRAMES] = realFrameMs;
+    this.frameCount++;
+  }
+
+  // Requests posted to the trip worker that haven't been answered yet
+  recordWorkerQueueDepth(depth: number): void {
+    this.workerQueueDepth = depth;
+    this.maxWorkerQueueDepth = Math.max(this.maxWorkerQueueDepth, depth);
+  }
+
+  getSummary(): TelemetrySummary {
+    return {
+      frameMs: getPercentiles(this.frameTimes.subarray(0, Math.min(this.frameCount, MAX_FRAMES))),
+      chunkLatencyMs: getPercentiles(this.chunks.map((c) => c.latencyMs)),
+      queryMs: getPercentiles(this.queries.map((q) => q.durationMs)),
+      httpReads: this.httpReads,
+      httpBytes: this.httpBytes,
+      workerQueueDepth: this.workerQueueDepth,
+      maxWorkerQueueDepth: this.maxWorkerQueueDepth,
+      recentBatches: this.batches.slice(-5),
+    };
+  }
+
+  /**
+   * Everything recorded, as plain JSON for bug reports.
+   */
+  export(): object {
+    return {
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== "undefined" ? navigator.userAgent : null,
+      summary: { ...this.getSummary(), recentBatches: undefined },
+      queries: this.queries,
+      batches: this.batches,
+      chunks: this.chunks,
+    };
+  }
+}
+
+export const telemetry = new Telemetry();
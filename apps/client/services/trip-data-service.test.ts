@@ -0,0 +1,127 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { MAX_RIDE_DURATION_MS, SIM_CHUNK_SIZE_MS } from "@/lib/config";
+import type { ProcessedTrip } from "@/lib/trip-types";
+import { TripDataService } from "@/services/trip-data-service";
+import { ANY_TRIP_FILTER, createFixtureDataset, makeTrip, type FixtureDataset } from "@/test/fixtures";
+
+// Midnight EST on the spring forward day, clocks jump at 07:00Z
+const SPRING_FORWARD_START = "2025-03-09T05:00:00Z";
+// 19:30 EDT, the next batch is in the next UTC day's file
+const BEFORE_UTC_MIDNIGHT = "2025-03-09T23:30:00Z";
+const FADE_MS = 30 * 1000;
+
+function minutes(count: number): number {
+  return count * 60 * 1000;
+}
+
+function ids(trips: ProcessedTrip[] | Map<string, ProcessedTrip>): string[] {
+  return Array.from(trips.values(), (trip) => trip.id).sort();
+}
+
+// Chunk a trip starting `simMs` into the window fades in during
+function fadeInChunk(simMs: number): number {
+  return Math.floor((simMs - FADE_MS) / SIM_CHUNK_SIZE_MS);
+}
+
+let fixture: FixtureDataset;
+let service: TripDataService;
+
+beforeAll(async () => {
+  fixture = await createFixtureDataset([
+    makeTrip("in-progress", "2025-03-09T04:50:00Z", 30),
+    makeTrip("at-start", "2025-03-09T05:00:00Z"),
+    makeTrip("batch-0", "2025-03-09T05:10:00Z"),
+    makeTrip("batch-1", "2025-03-09T05:40:00Z"),
+    makeTrip("long", "2025-03-09T05:35:00Z", 200), // until 3:55
+    makeTrip("after-switch", "2025-03-09T07:05:00Z"), // 3:05 EDT, 2:05 after the window start
+    makeTrip("before-midnight", "2025-03-09T23:50:00Z", 20),
+    makeTrip("after-midnight", "2025-03-10T00:05:00Z"),
+  ]);
+});
+
+afterAll(async () => {
+  await fixture.cleanup();
+});
+
+afterEach(() => {
+  service?.terminate();
+});
+
+function createService(windowStart: string): TripDataService {
+  return new TripDataService({
+    realWindowStartMs: Date.parse(windowStart),
+    animationStartDate: new Date(windowStart),
+    realFadeDurationMs: FADE_MS,
+    filter: ANY_TRIP_FILTER,
+    database: fixture.database,
+  });
+}
+
+describe("TripDataService on fixture days", () => {
+  test("starts with trips in progress and starting at the window start, each once", async () => {
+    service = createService(SPRING_FORWARD_START);
+    const initialTrips = await service.init();
+    expect(ids(initialTrips)).toEqual(["at-start", "in-progress"]);
+    expect(service.isBatchLoaded(0)).toBe(true);
+
+    const chunk0 = await service.requestChunk(0);
+    expect(chunk0.map((trip) => trip.id).sort()).toEqual(["at-start", "in-progress"]);
+    expect(ids(await service.requestChunk(fadeInChunk(minutes(10))))).toEqual(["batch-0"]);
+  });
+
+  test("loads later batches on request and again after they are cleared", async () => {
+    service = createService(SPRING_FORWARD_START);
+    await service.init();
+    const chunkIndex = fadeInChunk(minutes(40));
+    expect(ids(await service.requestChunk(chunkIndex))).toEqual(["batch-1"]);
+    expect(service.isBatchLoaded(1)).toBe(true);
+
+    service.clearBatch(1);
+    expect(service.isBatchLoaded(1)).toBe(false);
+    expect(ids(await service.requestChunk(chunkIndex))).toEqual(["batch-1"]);
+    expect(service.isBatchLoaded(1)).toBe(true);
+  });
+
+  test("keeps sim time in real elapsed time across the DST switch", async () => {
+    service = createService(SPRING_FORWARD_START);
+    await service.init();
+    expect(ids(await service.requestChunk(fadeInChunk(minutes(125))))).toEqual(["after-switch"]);
+  });
+
+  test("loads the lookback batches of backward requests", async () => {
+    service = createService(SPRING_FORWARD_START);
+    await service.init();
+    // batch-1 ends at 0:52 and fades out in chunk 53
+    const trips = await service.requestChunk(53, "backward");
+    expect(ids(trips)).toEqual(["batch-1"]);
+    expect(service.isBatchLoaded(1)).toBe(true);
+  });
+
+  test("backward requests load batches back to the start of long rides", async () => {
+    service = createService(SPRING_FORWARD_START);
+    await service.init();
+    expect(await service.getTripLookbackMs(minutes(236))).toBe(MAX_RIDE_DURATION_MS);
+    // long fades out in chunk 236, 3:21 after it started in batch 1
+    expect(ids(await service.requestChunk(236, "backward"))).toEqual(["long"]);
+    expect(service.isBatchLoaded(1)).toBe(true);
+    expect(service.getPrefetchPlan(-60).lookaheadBatches).toBeGreaterThanOrEqual(MAX_RIDE_DURATION_MS / minutes(30) + 1);
+  });
+
+  test("reads batches across UTC midnight from both day files", async () => {
+    service = createService(BEFORE_UTC_MIDNIGHT);
+    const initialTrips = await service.init();
+    expect(ids(initialTrips)).toEqual([]);
+    expect(ids(await service.requestChunk(fadeInChunk(minutes(20))))).toEqual(["before-midnight"]);
+    expect(ids(await service.requestChunk(fadeInChunk(minutes(35))))).toEqual(["after-midnight"]);
+  });
+
+  test("counts processed batches and the route cache against the budget", async () => {
+    service = createService(SPRING_FORWARD_START);
+    await service.init();
+    await service.requestChunk(fadeInChunk(minutes(40)));
+    const usage = service.getMemoryUsage();
+    expect(usage.batchCount).toBe(2);
+    expect(usage.workerBytes).toBeGreaterThan(0);
+    expect(usage.routeCacheBytes).toBeGreaterThan(0);
+  });
+});
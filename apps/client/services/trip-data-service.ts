@@ -1,39 +1,82 @@
 import {
   CHUNKS_PER_BATCH,
+  LOAD_TIME_SMOOTHING,
+  MAX_BATCHES_PER_QUERY,
+  MAX_LOOKAHEAD_BATCHES,
+  MEMORY_BUDGET_BYTES,
+  MIN_LOOKAHEAD_BATCHES,
+  NUM_LOOKAHEAD_BATCHES,
+  PREFETCH_SAFETY_FACTOR,
+  PREFETCH_THRESHOLD_CHUNKS,
+  REAL_PREFETCH_LOOKAHEAD_MS,
   SIM_BATCH_SIZE_MS,
   SIM_CHUNK_SIZE_MS,
+  SIM_TRIP_LOOKBACK_MS,
 } from "@/lib/config";
+import { unpackTrips } from "@/lib/trip-buffers";
 import type {
   MainToWorkerMessage,
+  PlaybackDirection,
   ProcessedTrip,
   TripWithRoute,
   WorkerToMainMessage,
 } from "@/lib/trip-types";
+import type { TripFilter } from "@/lib/trip-filters";
+import { BatchMemoryManager, type MemoryUsage } from "@/services/batch-memory";
 import { duckdbService } from "@/services/duckdb-service";
+import { telemetry } from "@/services/telemetry";
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 3000;
+// Worker processing is retried with the same trips, then the batch is skipped
+const MAX_PROCESSING_ATTEMPTS = 2;
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export type PrefetchPlan = {
+  lookaheadBatches: number; // batches to prefetch ahead of the current one
+  thresholdChunks: number; // chunks into the current batch before prefetching starts
+  batchesPerQuery: number; // consecutive batches fetched together
+};
+
+/**
+ * The queries the service runs. Tests pass one backed by local fixture files.
+ */
+export type TripDatabase = Pick<
+  typeof duckdbService,
+  "init" | "checkDataSource" | "getTripsInRange" | "getTripsOverlap" | "getTripLookbackMs"
+>;
 
 export interface TripDataServiceConfig {
   realWindowStartMs: number;
   animationStartDate: Date;
   realFadeDurationMs: number;
+  filter: TripFilter;
+  memoryBudgetBytes?: number; // defaults to MEMORY_BUDGET_BYTES
+  database?: TripDatabase; // defaults to duckdbService
   onError?: (error: string | null) => void;
+  // Rides in this real time range were skipped after failing to process (playback continues without them)
+  onRidesSkipped?: (realFromMs: number, realToMs: number) => void;
 }
 
 /**
  * Service that manages trip data fetching and worker processing.
  *
  * Lifecycle: new TripDataService(config) → init() → use → terminate()
- * Stateless after init - if config changes, create a new instance.
+ * If the time window changes, create a new instance. Speed changes go through setFadeDuration().
  */
 export class TripDataService {
   private readonly config: TripDataServiceConfig;
+  private readonly database: TripDatabase;
+  private realFadeDurationMs: number;
 
   // Worker state
   private worker: Worker | null = null;
+  // Keyed by `${direction}:${chunkIndex}`
   private pendingChunkRequests = new Map<
-    number,
+    string,
     (trips: ProcessedTrip[]) => void
   >();
   private loadedBatches = new Set<number>();
@@ -42,11 +85,29 @@ export class TripDataService {
     number,
     { resolve: () => void; reject: (error: unknown) => void }[]
   >();
+  // The current worker processing attempt per batch (settled by batch-processed or a batch error)
+  private processingAttempts = new Map<
+    number,
+    { resolve: () => void; reject: (error: Error) => void }
+  >();
   private terminated = false;
   private pendingRetryTimeouts = new Set<ReturnType<typeof setTimeout>>();
+  // Aborts in-flight DuckDB queries for batches that are no longer needed
+  private batchAbortControllers = new Map<number, AbortController>();
+  // Moving average of real ms to fetch and process one batch (null until the first load)
+  private realBatchLoadMs: number | null = null;
+  // Bytes per processed batch, for evicting least recently used batches beyond the budget
+  private readonly memory: BatchMemoryManager;
+  // Batches the latest chunk request needed (never evicted)
+  private requestedBatches = { first: 0, last: 0 };
+  // How far back the latest backward chunk request loaded batches, for prefetching backward
+  private simTripLookbackMs = SIM_TRIP_LOOKBACK_MS;
 
   constructor(config: TripDataServiceConfig) {
     this.config = config;
+    this.database = config.database ?? duckdbService;
+    this.realFadeDurationMs = config.realFadeDurationMs;
+    this.memory = new BatchMemoryManager(config.memoryBudgetBytes ?? MEMORY_BUDGET_BYTES);
   }
 
   /**
@@ -54,12 +115,15 @@ export class TripDataService {
    * Must be called before using other methods.
    */
   async init(): Promise<Map<string, ProcessedTrip>> {
-    const { realWindowStartMs, realFadeDurationMs } = this.config;
+    const { realWindowStartMs, animationStartDate } = this.config;
 
     console.log("[TripDataService] Initializing...");
 
     // Initialize DuckDB first (creates Parquet views)
-    await duckdbService.init();
+    await this.database.init();
+
+    // Fail fast if the data source is misconfigured or offline
+    await this.database.checkDataSource(animationStartDate);
 
     // Create worker dynamically to avoid SSR issues
     this.worker = new Worker(
@@ -83,7 +147,8 @@ export class TripDataService {
       this.post({
         type: "init",
         realWindowStartMs,
-        realFadeDurationMs,
+        realFadeDurationMs: this.realFadeDurationMs,
+        filter: this.config.filter,
       });
     });
 
@@ -107,52 +172,186 @@ export class TripDataService {
 
   /**
    * Request processed trips for a specific chunk index.
+   * Forward: trips that fade in during the chunk. Backward: trips that fade out during it.
    */
-  async requestChunk(chunkIndex: number): Promise<ProcessedTrip[]> {
-    // Ensure the batch containing this chunk is loaded
-    const batchId = Math.floor(chunkIndex / CHUNKS_PER_BATCH);
+  async requestChunk(chunkIndex: number, direction: PlaybackDirection = "forward"): Promise<ProcessedTrip[]> {
+    // Ensure the batches that can contain this chunk's trips are loaded.
+    // Backward, that's every batch a trip still in progress could have started in.
+    const lastBatchId = Math.floor(chunkIndex / CHUNKS_PER_BATCH);
+    let firstBatchId = lastBatchId;
+    if (direction === "backward") {
+      const simChunkStartMs = chunkIndex * SIM_CHUNK_SIZE_MS;
+      this.simTripLookbackMs = await this.getTripLookbackMs(simChunkStartMs);
+      firstBatchId = Math.floor((simChunkStartMs - this.simTripLookbackMs) / SIM_BATCH_SIZE_MS);
+    }
 
-    if (!this.loadedBatches.has(batchId)) {
-      await this.loadBatch(batchId);
+    const realRequestedAtMs = performance.now();
+    this.requestedBatches = { first: firstBatchId, last: lastBatchId };
+    const batchLoads: Promise<void>[] = [];
+    for (let batchId = firstBatchId; batchId <= lastBatchId; batchId++) {
+      if (this.loadedBatches.has(batchId)) {
+        this.memory.touch(batchId);
+      } else {
+        batchLoads.push(this.loadBatch(batchId));
+      }
     }
+    await Promise.all(batchLoads);
 
-    return new Promise((resolve) => {
-      this.pendingChunkRequests.set(chunkIndex, resolve);
+    const trips = await new Promise<ProcessedTrip[]>((resolve) => {
+      this.pendingChunkRequests.set(`${direction}:${chunkIndex}`, resolve);
 
       this.post({
         type: "request-chunk",
         chunkIndex,
+        direction,
       });
     });
+    telemetry.recordChunk({
+      chunkIndex,
+      direction,
+      latencyMs: performance.now() - realRequestedAtMs,
+      tripCount: trips.length,
+    });
+    return trips;
   }
 
   /**
-   * Prefetch a batch in the background.
+   * How long before a sim time the trips in progress at it can have started, from the manifest's
+   * per-day end times like reloads. Batches back to there hold every trip visible at that time.
    */
-  prefetchBatch(batchId: number): void {
-    if (!this.loadedBatches.has(batchId) && !this.loadingBatches.has(batchId)) {
-      this.loadBatch(batchId).catch((err) => {
-        // Don't report errors if service was terminated (e.g., user changed time)
-        if (this.terminated) return;
-        console.error(`Prefetch batch ${batchId} failed after ${MAX_RETRIES} retries:`, err);
-        this.config.onError?.(err instanceof Error ? err.message : "Failed to load trips");
-      });
+  async getTripLookbackMs(simTimeMs: number): Promise<number> {
+    return this.database.getTripLookbackMs(new Date(this.config.realWindowStartMs + simTimeMs));
+  }
+
+  /**
+   * How far ahead to prefetch at the given speed, based on measured batch load times.
+   * Slow loads or high speedups prefetch deeper, earlier and in larger queries; fast loads prefetch just in time.
+   */
+  getPrefetchPlan(speedup: number): PrefetchPlan {
+    const direction: PlaybackDirection = speedup < 0 ? "backward" : "forward";
+    const realBatchPlaybackMs = SIM_BATCH_SIZE_MS / Math.abs(speedup);
+    // Backward, trips can start up to the trip lookback before the chunk they fade out in
+    const minLookaheadBatches =
+      direction === "forward" ? MIN_LOOKAHEAD_BATCHES : Math.ceil(this.simTripLookbackMs / SIM_BATCH_SIZE_MS) + 1;
+    const maxLookaheadBatches = Math.max(MAX_LOOKAHEAD_BATCHES, minLookaheadBatches);
+
+    // Nothing measured yet: cover REAL_PREFETCH_LOOKAHEAD_MS of playback
+    if (this.realBatchLoadMs === null) {
+      const lookaheadBatches = Math.min(
+        maxLookaheadBatches,
+        Math.max(NUM_LOOKAHEAD_BATCHES, minLookaheadBatches, Math.ceil(REAL_PREFETCH_LOOKAHEAD_MS / realBatchPlaybackMs))
+      );
+      return {
+        lookaheadBatches,
+        thresholdChunks: lookaheadBatches > Math.max(NUM_LOOKAHEAD_BATCHES, minLookaheadBatches) ? 0 : PREFETCH_THRESHOLD_CHUNKS,
+        batchesPerQuery: 1,
+      };
     }
+
+    const realBufferTargetMs = this.realBatchLoadMs * PREFETCH_SAFETY_FACTOR;
+    const realChunkPlaybackMs = SIM_CHUNK_SIZE_MS / Math.abs(speedup);
+    const lookaheadBatches = Math.min(
+      maxLookaheadBatches,
+      Math.max(minLookaheadBatches, Math.ceil(realBufferTargetMs / realBatchPlaybackMs))
+    );
+    // Start once the rest of the current batch plays in less than the buffer target
+    const thresholdChunks = Math.min(
+      CHUNKS_PER_BATCH - 1,
+      Math.max(0, CHUNKS_PER_BATCH - Math.ceil(realBufferTargetMs / realChunkPlaybackMs))
+    );
+    // Loading slower than playing: fewer, larger queries (each query has a fixed cost for file metadata)
+    const batchesPerQuery =
+      this.realBatchLoadMs > realBatchPlaybackMs
+        ? Math.min(MAX_BATCHES_PER_QUERY, lookaheadBatches, Math.ceil(this.realBatchLoadMs / realBatchPlaybackMs))
+        : 1;
+
+    return { lookaheadBatches, thresholdChunks, batchesPerQuery };
+  }
+
+  /**
+   * Playback buffered ahead of the playhead relative to the buffer target, from 0 (stalled) to 1 (healthy).
+   * Counts contiguous loaded batches in the playing direction against the expected batch load time.
+   */
+  getBufferHealth(simTimeMs: number, speedup: number): number {
+    if (this.realBatchLoadMs === null) return 1;
+
+    const step = speedup < 0 ? -1 : 1;
+    let batchId = Math.floor(simTimeMs / SIM_BATCH_SIZE_MS);
+    if (!this.loadedBatches.has(batchId)) return 0;
+    while (this.loadedBatches.has(batchId + step)) {
+      batchId += step;
+    }
+
+    const bufferedSimMs = step > 0 ? (batchId + 1) * SIM_BATCH_SIZE_MS - simTimeMs : simTimeMs - batchId * SIM_BATCH_SIZE_MS;
+    const bufferedRealMs = bufferedSimMs / Math.abs(speedup);
+    return Math.min(1, bufferedRealMs / (this.realBatchLoadMs * PREFETCH_SAFETY_FACTOR));
+  }
+
+  /**
+   * Prefetch batches in the background.
+   * Consecutive batches that aren't loaded yet are fetched together, up to batchesPerQuery at a time.
+   */
+  prefetchBatches(batchIds: number[], batchesPerQuery = 1): void {
+    const pending = batchIds
+      .filter((batchId) => !this.loadedBatches.has(batchId) && !this.loadingBatches.has(batchId))
+      .sort((a, b) => a - b);
+
+    // Batch 0 also holds trips in progress at the window start, it's always fetched on its own
+    let span: number[] = [];
+    const flush = () => {
+      if (span.length > 0) this.prefetchSpan(span);
+      span = [];
+    };
+    for (const batchId of pending) {
+      if (span.length >= batchesPerQuery || batchId === 0 || span[span.length - 1] !== batchId - 1 || span[0] === 0) {
+        flush();
+      }
+      span.push(batchId);
+    }
+    flush();
   }
 
   /**
    * Clear a batch from worker memory.
    */
   clearBatch(batchId: number): void {
+    // Cancel the query if the batch is still loading
+    this.batchAbortControllers.get(batchId)?.abort();
+
     if (this.loadedBatches.has(batchId)) {
       this.post({
         type: "clear-batch",
         batchId,
       });
       this.loadedBatches.delete(batchId);
+      this.memory.remove(batchId);
     }
   }
 
+  /**
+   * Report buffers retained by trips on the main thread - they count against the memory budget.
+   */
+  setMainThreadBytes(bytes: number): void {
+    this.memory.setMainThreadBytes(bytes);
+    this.enforceMemoryBudget();
+  }
+
+  getMemoryUsage(): MemoryUsage {
+    return this.memory.getUsage();
+  }
+
+  /**
+   * Update the fade duration after a speed change.
+   * Trips held by the worker are re-timed; trips already handed out must be patched by the caller.
+   */
+  setFadeDuration(realFadeDurationMs: number): void {
+    this.realFadeDurationMs = realFadeDurationMs;
+    this.post({
+      type: "set-fade-duration",
+      realFadeDurationMs,
+    });
+  }
+
   /**
    * Check if a batch is loaded.
    */
@@ -165,6 +364,11 @@ export class TripDataService {
    */
   terminate(): void {
     this.terminated = true;
+    // Cancel in-flight queries so superseded batches stop downloading
+    for (const controller of this.batchAbortControllers.values()) {
+      controller.abort();
+    }
+    this.batchAbortControllers.clear();
     // Clear any pending retry timeouts
     for (const timeout of this.pendingRetryTimeouts) {
       clearTimeout(timeout);
@@ -174,6 +378,7 @@ export class TripDataService {
     this.worker = null;
     this.pendingChunkRequests.clear();
     this.batchProcessedCallbacks.clear();
+    this.processingAttempts.clear();
     this.loadedBatches.clear();
     this.loadingBatches.clear();
   }
@@ -184,6 +389,21 @@ export class TripDataService {
 
   private post(message: MainToWorkerMessage): void {
     this.worker?.postMessage(message);
+    this.recordWorkerQueueDepth();
+  }
+
+  // Requests the worker hasn't answered yet: chunks and batches being processed
+  private recordWorkerQueueDepth(): void {
+    telemetry.recordWorkerQueueDepth(this.pendingChunkRequests.size + this.processingAttempts.size);
+  }
+
+  private prefetchSpan(batchIds: number[]): void {
+    this.loadBatchSpan(batchIds).catch((err) => {
+      // Don't report errors if service was terminated (e.g., user changed time) or batch was cancelled
+      if (this.terminated || isAbortError(err)) return;
+      console.error(`Prefetch batches ${batchIds.join(", ")} failed after ${MAX_RETRIES} retries:`, err);
+      this.config.onError?.(err instanceof Error ? err.message : "Failed to load trips");
+    });
   }
 
   private handleMessage(event: MessageEvent<WorkerToMainMessage>): void {
@@ -191,10 +411,11 @@ export class TripDataService {
 
     switch (msg.type) {
       case "chunk-response": {
-        const resolver = this.pendingChunkRequests.get(msg.chunkIndex);
+        const key = `${msg.direction}:${msg.chunkIndex}`;
+        const resolver = this.pendingChunkRequests.get(key);
         if (resolver) {
-          resolver(msg.trips);
-          this.pendingChunkRequests.delete(msg.chunkIndex);
+          resolver(unpackTrips(msg.buffers));
+          this.pendingChunkRequests.delete(key);
         }
         break;
       }
@@ -206,26 +427,51 @@ export class TripDataService {
       }
 
       case "batch-processed": {
-        this.loadedBatches.add(msg.batchId);
-        this.loadingBatches.delete(msg.batchId);
         console.log(`Batch ${msg.batchId} processed: ${msg.tripCount} trips`);
-
-        // Resolve ALL waiting callbacks (supports concurrent waiters)
-        const callbacks = this.batchProcessedCallbacks.get(msg.batchId);
-        if (callbacks) {
-          for (const { resolve } of callbacks) {
-            resolve();
-          }
-          this.batchProcessedCallbacks.delete(msg.batchId);
-        }
+        this.processingAttempts.get(msg.batchId)?.resolve();
+        this.processingAttempts.delete(msg.batchId);
+        this.memory.add(msg.batchId, msg.bytes);
+        this.memory.setRouteCacheBytes(msg.routeCacheBytes);
+        this.markBatchLoaded(msg.batchId);
+        this.enforceMemoryBudget();
         break;
       }
 
       case "error": {
         console.error("Worker error:", msg.message, msg.context);
+
+        // Settle the request that failed so nothing waits on it forever
+        if (msg.batchId !== undefined) {
+          this.processingAttempts.get(msg.batchId)?.reject(new Error(msg.message));
+          this.processingAttempts.delete(msg.batchId);
+        }
+        if (msg.chunkIndex !== undefined && msg.direction !== undefined) {
+          const key = `${msg.direction}:${msg.chunkIndex}`;
+          const resolver = this.pendingChunkRequests.get(key);
+          if (resolver) {
+            resolver([]);
+            this.pendingChunkRequests.delete(key);
+            const realChunkStartMs = this.config.realWindowStartMs + msg.chunkIndex * SIM_CHUNK_SIZE_MS;
+            this.config.onRidesSkipped?.(realChunkStartMs, realChunkStartMs + SIM_CHUNK_SIZE_MS);
+          }
+        }
         break;
       }
     }
+    this.recordWorkerQueueDepth();
+  }
+
+  // Evict least recently used batches beyond the budget. Batches around the latest request stay,
+  // evicted ones are fetched again if playback or a seek returns to them.
+  private enforceMemoryBudget(): void {
+    const protectedBatchIds = new Set<number>();
+    for (let batchId = this.requestedBatches.first - 1; batchId <= this.requestedBatches.last + 1; batchId++) {
+      protectedBatchIds.add(batchId);
+    }
+    for (const batchId of this.memory.takeEvictions(protectedBatchIds)) {
+      console.log(`Evicting batch ${batchId} (memory budget)`);
+      this.clearBatch(batchId);
+    }
   }
 
   private handleError(error: ErrorEvent): void {
@@ -235,6 +481,10 @@ export class TripDataService {
       resolver([]); // Return empty array on error
     }
     this.pendingChunkRequests.clear();
+    for (const { reject } of this.processingAttempts.values()) {
+      reject(new Error("Worker crashed"));
+    }
+    this.processingAttempts.clear();
     // Surface error to UI
     if (!this.terminated) {
       this.config.onError?.("Worker crashed unexpectedly");
@@ -250,56 +500,153 @@ export class TripDataService {
       return; // Already loaded
     }
 
-    // If already loading, add to waiters and return promise
+    // If already loading, wait for it
     if (this.loadingBatches.has(batchId)) {
-      return new Promise((resolve, reject) => {
-        const callbacks = this.batchProcessedCallbacks.get(batchId) ?? [];
-        callbacks.push({ resolve, reject });
-        this.batchProcessedCallbacks.set(batchId, callbacks);
-      });
+      return this.waitForBatch(batchId);
     }
 
-    this.loadingBatches.add(batchId);
-    console.log(`Loading batch ${batchId}...`);
+    return this.loadBatchSpan([batchId]);
+  }
 
-    try {
-      // Fetch from server with retry
-      const trips = await this.fetchBatchWithRetry(batchId);
+  // Resolve ALL waiting callbacks (supports concurrent waiters)
+  private markBatchLoaded(batchId: number): void {
+    this.loadedBatches.add(batchId);
+    this.loadingBatches.delete(batchId);
 
-      // Clear any previous error on success
-      this.config.onError?.(null);
+    const callbacks = this.batchProcessedCallbacks.get(batchId);
+    if (callbacks) {
+      for (const { resolve } of callbacks) {
+        resolve();
+      }
+      this.batchProcessedCallbacks.delete(batchId);
+    }
+  }
 
-      // Send to worker for processing
+  // Send fetched trips to the worker. Processing errors are retried, then the batch is skipped:
+  // it counts as loaded (so playback and prefetching move on) and the gap is reported.
+  private async processBatch(batchId: number, trips: TripWithRoute[]): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const processed = new Promise<void>((resolve, reject) => {
+        this.processingAttempts.set(batchId, { resolve, reject });
+      });
       this.post({
         type: "load-batch",
         batchId,
         trips,
       });
 
-      // Wait for batch to be processed
-      return new Promise((resolve, reject) => {
-        const callbacks = this.batchProcessedCallbacks.get(batchId) ?? [];
-        callbacks.push({ resolve, reject });
-        this.batchProcessedCallbacks.set(batchId, callbacks);
+      try {
+        return await processed;
+      } catch (error) {
+        if (this.terminated) throw error;
+        console.warn(`Batch ${batchId} processing attempt ${attempt}/${MAX_PROCESSING_ATTEMPTS} failed:`, error);
+        if (attempt >= MAX_PROCESSING_ATTEMPTS) {
+          const realBatchStartMs = this.config.realWindowStartMs + batchId * SIM_BATCH_SIZE_MS;
+          console.error(`Skipping batch ${batchId}`);
+          this.markBatchLoaded(batchId);
+          this.config.onRidesSkipped?.(realBatchStartMs, realBatchStartMs + SIM_BATCH_SIZE_MS);
+          return;
+        }
+      }
+    }
+  }
+
+  private waitForBatch(batchId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const callbacks = this.batchProcessedCallbacks.get(batchId) ?? [];
+      callbacks.push({ resolve, reject });
+      this.batchProcessedCallbacks.set(batchId, callbacks);
+    });
+  }
+
+  // Load consecutive batches (none loaded or loading) with one query.
+  // They share an abort controller - clearing one cancels the others, which are then fetched again on demand.
+  private async loadBatchSpan(batchIds: number[]): Promise<void> {
+    // Only time loads that don't queue behind others, the wait would inflate the estimate
+    const isTimed = this.loadingBatches.size === 0;
+    for (const batchId of batchIds) {
+      this.loadingBatches.add(batchId);
+    }
+    console.log(`Loading batch ${batchIds.join(", ")}...`);
+
+    const abortController = new AbortController();
+    for (const batchId of batchIds) {
+      this.batchAbortControllers.set(batchId, abortController);
+    }
+    const realLoadStartMs = performance.now();
+    const realStartedAtMs = Date.now();
+
+    try {
+      // Fetch from server with retry
+      const trips = await this.fetchBatchWithRetry(batchIds, abortController.signal);
+      const realFetchedAtMs = performance.now();
+      for (const batchId of batchIds) {
+        this.batchAbortControllers.delete(batchId);
+      }
+
+      // Clear any previous error on success
+      this.config.onError?.(null);
+
+      // Send to worker for processing, one batch at a time, and wait for them to be processed
+      const tripsByBatch = this.splitByBatch(batchIds, trips);
+      await Promise.all(batchIds.map((batchId, i) => this.processBatch(batchId, tripsByBatch[i])));
+      telemetry.recordBatch({
+        batchIds,
+        realStartedAtMs,
+        fetchMs: realFetchedAtMs - realLoadStartMs,
+        processMs: performance.now() - realFetchedAtMs,
+        tripCount: trips.length,
+        queued: !isTimed,
       });
+      if (isTimed) {
+        this.recordBatchLoadTime((performance.now() - realLoadStartMs) / batchIds.length);
+      }
     } catch (error) {
-      console.error(`Failed to load batch ${batchId}:`, error);
-      this.loadingBatches.delete(batchId);
-
-      // Reject all waiting callbacks
-      const callbacks = this.batchProcessedCallbacks.get(batchId);
-      if (callbacks) {
-        for (const { reject } of callbacks) {
-          reject(error);
+      for (const batchId of batchIds) {
+        this.batchAbortControllers.delete(batchId);
+      }
+      if (!abortController.signal.aborted) {
+        console.error(`Failed to load batch ${batchIds.join(", ")}:`, error);
+      }
+
+      for (const batchId of batchIds) {
+        this.loadingBatches.delete(batchId);
+
+        // Reject all waiting callbacks
+        const callbacks = this.batchProcessedCallbacks.get(batchId);
+        if (callbacks) {
+          for (const { reject } of callbacks) {
+            reject(error);
+          }
+          this.batchProcessedCallbacks.delete(batchId);
         }
-        this.batchProcessedCallbacks.delete(batchId);
       }
 
       throw error;
     }
   }
 
-  private async fetchBatchWithRetry(batchId: number): Promise<TripWithRoute[]> {
+  private recordBatchLoadTime(realLoadMs: number): void {
+    this.realBatchLoadMs =
+      this.realBatchLoadMs === null
+        ? realLoadMs
+        : this.realBatchLoadMs + LOAD_TIME_SMOOTHING * (realLoadMs - this.realBatchLoadMs);
+  }
+
+  // Trips of a multi-batch query, grouped by the batch they start in
+  private splitByBatch(batchIds: number[], trips: TripWithRoute[]): TripWithRoute[][] {
+    if (batchIds.length === 1) return [trips];
+
+    const { realWindowStartMs } = this.config;
+    const tripsByBatch = batchIds.map((): TripWithRoute[] => []);
+    for (const trip of trips) {
+      const batchId = Math.floor((trip.startedAt.getTime() - realWindowStartMs) / SIM_BATCH_SIZE_MS);
+      tripsByBatch[batchId - batchIds[0]]?.push(trip);
+    }
+    return tripsByBatch;
+  }
+
+  private async fetchBatchWithRetry(batchIds: number[], signal: AbortSignal): Promise<TripWithRoute[]> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
@@ -308,10 +655,12 @@ export class TripDataService {
       }
 
       try {
-        return await this.fetchBatch(batchId);
+        return await this.fetchBatch(batchIds, signal);
       } catch (error) {
+        // Cancelled batches are not retried
+        if (signal.aborted) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
-        console.warn(`Batch ${batchId} attempt ${attempt}/${MAX_RETRIES} failed:`, lastError.message);
+        console.warn(`Batch ${batchIds.join(", ")} attempt ${attempt}/${MAX_RETRIES} failed:`, lastError.message);
 
         if (attempt < MAX_RETRIES && !this.terminated) {
           await new Promise<void>((resolve) => {
@@ -328,24 +677,29 @@ export class TripDataService {
     throw lastError;
   }
 
-  private async fetchBatch(batchId: number): Promise<TripWithRoute[]> {
-    const { realWindowStartMs, animationStartDate } = this.config;
+  // batchIds are consecutive
+  private async fetchBatch(batchIds: number[], signal: AbortSignal): Promise<TripWithRoute[]> {
+    const { realWindowStartMs, animationStartDate, filter } = this.config;
 
-    const realBatchStartMs = realWindowStartMs + batchId * SIM_BATCH_SIZE_MS;
-    const realBatchEndMs = realBatchStartMs + SIM_BATCH_SIZE_MS;
+    const realBatchStartMs = realWindowStartMs + batchIds[0] * SIM_BATCH_SIZE_MS;
+    const realBatchEndMs = realBatchStartMs + batchIds.length * SIM_BATCH_SIZE_MS;
 
-    console.log(`Fetching batch ${batchId} from DuckDB...`);
+    console.log(`Fetching batch ${batchIds.join(", ")} from DuckDB...`);
 
     // For batch 0, fetch both range and overlap trips in parallel
-    if (batchId === 0) {
+    if (batchIds[0] === 0) {
       const [trips, overlapTrips] = await Promise.all([
-        duckdbService.getTripsInRange({
+        this.database.getTripsInRange({
           from: new Date(realBatchStartMs),
           to: new Date(realBatchEndMs),
+          filter,
+          signal,
         }),
-        duckdbService.getTripsOverlap({
+        this.database.getTripsOverlap({
           chunkStart: animationStartDate,
           chunkEnd: new Date(realWindowStartMs + SIM_CHUNK_SIZE_MS),
+          filter,
+          signal,
         }),
       ]);
 
@@ -364,9 +718,11 @@ export class TripDataService {
       return Array.from(tripMap.values());
     }
 
-    return duckdbService.getTripsInRange({
+    return this.database.getTripsInRange({
       from: new Date(realBatchStartMs),
       to: new Date(realBatchEndMs),
+      filter,
+      signal,
     });
   }
 }
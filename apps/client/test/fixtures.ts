@@ -0,0 +1,237 @@
+// Tiny parquet days for tests, in the schema build-parquet.ts writes, and a TripDatabase that
+// runs the client's own queries against them with DuckDB (node bindings instead of WASM).
+
+import { DuckDBInstance, type DuckDBConnection } from "@duckdb/node-api";
+import polyline from "@mapbox/polyline";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { SqlQuery } from "@/lib/sql-query";
+import type { Station } from "@/lib/stores/stations-store";
+import type { TripFilter } from "@/lib/trip-filters";
+import type { DatasetManifestDay, TripWithRoute } from "@/lib/trip-types";
+import {
+  getDaysForRange,
+  getDaysInProgress,
+  getTripLookbackMs,
+  getTripsInRangeQuery,
+  getTripsOverlapQuery,
+} from "@/services/duckdb-service";
+import type { TripDatabase } from "@/services/trip-data-service";
+
+export const FIXTURE_STATIONS: Station[] = [
+  { name: "W 21 St & 6 Ave", aliases: [], latitude: 40.74174, longitude: -73.99416, borough: "Manhattan", neighborhood: "Chelsea" },
+  { name: "W 22 St & 8 Ave", aliases: [], latitude: 40.74475, longitude: -73.99915, borough: "Manhattan", neighborhood: "Chelsea" },
+  { name: "E 47 St & Park Ave", aliases: [], latitude: 40.75510, longitude: -73.97498, borough: "Manhattan", neighborhood: "Midtown" },
+  { name: "Bedford Ave & N 7 St", aliases: [], latitude: 40.72036, longitude: -73.95807, borough: "Brooklyn", neighborhood: "Williamsburg" },
+];
+
+export const FIXTURE_STATION_BY_NAME = new Map(FIXTURE_STATIONS.map((station) => [station.name, station]));
+
+// Filter without the default speed bounds, so long test rides aren't dropped
+export const ANY_TRIP_FILTER: TripFilter = {
+  bikeTypes: [],
+  riderTypes: [],
+  durationMs: { min: null, max: null },
+  distanceMeters: { min: null, max: null },
+  speedKmh: { min: null, max: null },
+  startStationNames: null,
+  endStationNames: null,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A trip between two fixture stations (the first two by default), 2 km long, with a 3-point route.
+ */
+export function makeTrip(
+  id: string,
+  startedAt: string,
+  durationMinutes = 12,
+  overrides: Partial<TripWithRoute> = {}
+): TripWithRoute {
+  const startStation = FIXTURE_STATION_BY_NAME.get(overrides.startStationName ?? FIXTURE_STATIONS[0].name)!;
+  const endStation = FIXTURE_STATION_BY_NAME.get(overrides.endStationName ?? FIXTURE_STATIONS[1].name)!;
+  const startedAtDate = new Date(startedAt);
+  return {
+    id,
+    startStationName: startStation.name,
+    endStationName: endStation.name,
+    startedAt: startedAtDate,
+    endedAt: new Date(startedAtDate.getTime() + durationMinutes * MINUTE_MS),
+    bikeType: "classic_bike",
+    memberCasual: "member",
+    startLat: startStation.latitude,
+    startLng: startStation.longitude,
+    endLat: endStation.latitude,
+    endLng: endStation.longitude,
+    routeGeometry: polyline.encode(
+      [
+        [startStation.latitude, startStation.longitude],
+        [(startStation.latitude + endStation.latitude) / 2, startStation.longitude],
+        [endStation.latitude, endStation.longitude],
+      ],
+      6
+    ),
+    routeDistance: 2000,
+    ...overrides,
+  };
+}
+
+export type FixtureDataset = {
+  dir: string;
+  manifestDays: Map<string, DatasetManifestDay>;
+  database: TripDatabase;
+  // Run any query over the day files and the trip index (file names resolve inside dir)
+  query: (query: SqlQuery) => Promise<TripWithRoute[]>;
+  queryRows: (query: SqlQuery) => Promise<Array<Record<string, unknown>>>;
+  cleanup: () => Promise<void>;
+};
+
+const CREATE_TRIPS_TABLE = `
+  CREATE TABLE trips (
+    id VARCHAR,
+    startStationName VARCHAR,
+    endStationName VARCHAR,
+    startedAt TIMESTAMP,
+    endedAt TIMESTAMP,
+    bikeType VARCHAR,
+    memberCasual VARCHAR,
+    startLat DOUBLE,
+    startLng DOUBLE,
+    endLat DOUBLE,
+    endLng DOUBLE,
+    routeGeometry VARCHAR,
+    routeDistance DOUBLE
+  )
+`;
+
+// Whole numbers are bound as BIGINT - as plain numbers they'd be truncated to 32 bits
+function toDuckDBParam(value: string | number | boolean | null): string | number | boolean | bigint | null {
+  return typeof value === "number" && Number.isInteger(value) ? BigInt(value) : value;
+}
+
+async function readRows(connection: DuckDBConnection, query: SqlQuery): Promise<Array<Record<string, unknown>>> {
+  const { sql, params } = query.build();
+  const reader = await connection.runAndReadAll(sql, params.map(toDuckDBParam));
+  return reader.getRowObjectsJS() as Array<Record<string, unknown>>;
+}
+
+async function readTrips(connection: DuckDBConnection, query: SqlQuery): Promise<TripWithRoute[]> {
+  return (await readRows(connection, query)).map((row) => ({
+    id: row.id as string,
+    startStationName: row.startStationName as string,
+    endStationName: row.endStationName as string,
+    startedAt: new Date(row.startedAt as Date),
+    endedAt: new Date(row.endedAt as Date),
+    bikeType: row.bikeType as string,
+    memberCasual: row.memberCasual as string,
+    startLat: row.startLat as number,
+    startLng: row.startLng as number,
+    endLat: row.endLat as number | null,
+    endLng: row.endLng as number | null,
+    routeGeometry: row.routeGeometry as string | null,
+    routeDistance: row.routeDistance as number | null,
+  }));
+}
+
+/**
+ * Write one parquet file per UTC day of the trips' start times into a temp directory,
+ * with manifest entries (max end time without the 4-hour cap) and a trip index like build-parquet.ts.
+ */
+export async function createFixtureDataset(trips: TripWithRoute[]): Promise<FixtureDataset> {
+  const dir = await mkdtemp(path.join(tmpdir(), "bikemap-fixture-"));
+  const instance = await DuckDBInstance.create(":memory:");
+  const connection = await instance.connect();
+
+  await connection.run(CREATE_TRIPS_TABLE);
+  for (const trip of trips) {
+    await connection.run(
+      "INSERT INTO trips VALUES (?, ?, ?, epoch_ms(?::BIGINT), epoch_ms(?::BIGINT), ?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        trip.id,
+        trip.startStationName,
+        trip.endStationName,
+        BigInt(trip.startedAt.getTime()),
+        BigInt(trip.endedAt.getTime()),
+        trip.bikeType,
+        trip.memberCasual,
+        trip.startLat,
+        trip.startLng,
+        trip.endLat,
+        trip.endLng,
+        trip.routeGeometry,
+        trip.routeDistance,
+      ]
+    );
+  }
+
+  const manifestDays = new Map<string, DatasetManifestDay>();
+  for (const trip of trips) {
+    const day = trip.startedAt.toISOString().slice(0, 10);
+    const entry = manifestDays.get(day) ?? {
+      day,
+      file: `${day}.parquet`,
+      tripCount: 0,
+      bytes: 0,
+      minStartedAtMs: Infinity,
+      maxStartedAtMs: -Infinity,
+      maxEndedAtMs: -Infinity,
+      schemaVersion: 1,
+    };
+    entry.tripCount++;
+    entry.minStartedAtMs = Math.min(entry.minStartedAtMs, trip.startedAt.getTime());
+    entry.maxStartedAtMs = Math.max(entry.maxStartedAtMs, trip.startedAt.getTime());
+    entry.maxEndedAtMs = Math.max(entry.maxEndedAtMs!, trip.endedAt.getTime());
+    manifestDays.set(day, entry);
+  }
+  for (const day of manifestDays.keys()) {
+    await connection.run(`
+      COPY (SELECT * FROM trips WHERE strftime(startedAt, '%Y-%m-%d') = '${day}' ORDER BY startedAt)
+      TO '${path.join(dir, `${day}.parquet`)}' (FORMAT PARQUET)
+    `);
+  }
+  await connection.run(`
+    COPY (SELECT id, strftime(startedAt, '%Y-%m-%d') AS day FROM trips ORDER BY id)
+    TO '${path.join(dir, "trip-index.parquet")}' (FORMAT PARQUET)
+  `);
+  await connection.run(`SET file_search_path = '${dir}'`);
+
+  // One statement at a time - the service runs queries in parallel, a connection can't
+  let lastQuery: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(run: () => Promise<T>) => {
+    const result = lastQuery.then(run);
+    lastQuery = result.catch(() => {});
+    return result;
+  };
+  const query = (sqlQuery: SqlQuery) => serialize(() => readTrips(connection, sqlQuery));
+  const queryRows = (sqlQuery: SqlQuery) => serialize(() => readRows(connection, sqlQuery));
+  const toFiles = (days: string[]) => days.map((day) => `${day}.parquet`);
+
+  const database: TripDatabase = {
+    init: async () => {},
+    checkDataSource: async () => {},
+    getTripsInRange: async ({ from, to, filter }) => {
+      const files = toFiles(getDaysForRange(from, to, manifestDays));
+      return files.length > 0 ? query(getTripsInRangeQuery({ files, from, to, filter })) : [];
+    },
+    getTripsOverlap: async ({ chunkStart, chunkEnd, filter }) => {
+      const files = toFiles(getDaysInProgress(chunkStart, chunkEnd, manifestDays));
+      return files.length > 0 ? query(getTripsOverlapQuery({ files, chunkStart, chunkEnd, filter })) : [];
+    },
+    getTripLookbackMs: async (at) => getTripLookbackMs(at, manifestDays),
+  };
+
+  return {
+    dir,
+    manifestDays,
+    database,
+    query,
+    queryRows,
+    cleanup: async () => {
+      connection.closeSync();
+      instance.closeSync();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
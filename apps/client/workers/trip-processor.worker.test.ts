@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { SIM_CHUNK_SIZE_MS, SIM_TRAIL_LENGTH_MS } from "@/lib/config";
+import { unpackTrips } from "@/lib/trip-buffers";
+import type {
+  MainToWorkerMessage,
+  PlaybackDirection,
+  ProcessedTrip,
+  TripWithRoute,
+  WorkerToMainMessage,
+} from "@/lib/trip-types";
+import { ANY_TRIP_FILTER, FIXTURE_STATIONS, makeTrip } from "@/test/fixtures";
+
+const WINDOW_START = "2025-06-05T12:00:00Z";
+const REAL_WINDOW_START_MS = Date.parse(WINDOW_START);
+const FADE_MS = 30 * 1000;
+
+// Start time `simMs` into the window
+function at(simMs: number): string {
+  return new Date(REAL_WINDOW_START_MS + simMs).toISOString();
+}
+
+function minutes(count: number): number {
+  return count * 60 * 1000;
+}
+
+// The worker script in a real Worker, with helpers to wait for its replies
+class TestWorker {
+  private readonly worker = new Worker(new URL("./trip-processor.worker.ts", import.meta.url), { type: "module" });
+  private messages: WorkerToMainMessage[] = [];
+  private waiters: Array<() => void> = [];
+
+  constructor() {
+    this.worker.onmessage = (event: MessageEvent<WorkerToMainMessage>) => {
+      this.messages.push(event.data);
+      for (const waiter of this.waiters.splice(0)) waiter();
+    };
+  }
+
+  post(message: MainToWorkerMessage): void {
+    this.worker.postMessage(message);
+  }
+
+  // Next reply of a type (replies come in order, earlier ones of other types are dropped)
+  async next<T extends WorkerToMainMessage["type"]>(type: T): Promise<Extract<WorkerToMainMessage, { type: T }>> {
+    for (;;) {
+      const index = this.messages.findIndex((message) => message.type === type);
+      if (index >= 0) {
+        const [message] = this.messages.splice(0, index + 1).slice(-1);
+        return message as Extract<WorkerToMainMessage, { type: T }>;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  async init(filter = ANY_TRIP_FILTER, realFadeDurationMs = FADE_MS): Promise<void> {
+    this.post({ type: "init", realWindowStartMs: REAL_WINDOW_START_MS, realFadeDurationMs, filter });
+    await this.next("ready");
+  }
+
+  async loadBatch(batchId: number, trips: TripWithRoute[]) {
+    this.post({ type: "load-batch", batchId, trips });
+    return this.next("batch-processed");
+  }
+
+  async requestChunk(chunkIndex: number, direction: PlaybackDirection = "forward"): Promise<ProcessedTrip[]> {
+    this.post({ type: "request-chunk", chunkIndex, direction });
+    const response = await this.next("chunk-response");
+    expect(response).toMatchObject({ chunkIndex, direction });
+    return unpackTrips(response.buffers);
+  }
+
+  async requestChunkIds(chunkIndex: number, direction: PlaybackDirection = "forward"): Promise<string[]> {
+    return (await this.requestChunk(chunkIndex, direction)).map((trip) => trip.id);
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+}
+
+let worker: TestWorker;
+
+afterEach(() => {
+  worker?.terminate();
+});
+
+describe("trip processor worker", () => {
+  test("reports batches before init as errors", async () => {
+    worker = new TestWorker();
+    worker.post({ type: "load-batch", batchId: 3, trips: [] });
+    expect(await worker.next("error")).toMatchObject({ message: "Worker not initialized", batchId: 3 });
+  });
+
+  test("reports processed trips, their bytes and the route cache", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    const first = await worker.loadBatch(0, [
+      makeTrip("a", at(minutes(1))),
+      makeTrip("b", at(minutes(2))),
+      makeTrip("no-route", at(minutes(3)), 12, { routeGeometry: null }),
+    ]);
+    expect(first).toMatchObject({ batchId: 0, tripCount: 2 });
+    expect(first.bytes).toBeGreaterThan(0);
+    expect(first.routeCacheBytes).toBeGreaterThan(0);
+
+    // Same station pair: the cached route is reused
+    const second = await worker.loadBatch(1, [makeTrip("c", at(minutes(31)))]);
+    expect(second.tripCount).toBe(1);
+    expect(second.routeCacheBytes).toBe(first.routeCacheBytes);
+
+    const third = await worker.loadBatch(2, [
+      makeTrip("d", at(minutes(61)), 12, { endStationName: FIXTURE_STATIONS[2].name }),
+    ]);
+    expect(third.routeCacheBytes).toBeGreaterThan(second.routeCacheBytes);
+  });
+
+  test("partitions trips by the chunk they fade in", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    // Starts 10 s into chunk 5, so it fades in during chunk 4
+    await worker.loadBatch(0, [makeTrip("a", at(minutes(5) + 10_000)), makeTrip("b", at(minutes(6) + 40_000))]);
+    expect(await worker.requestChunkIds(4)).toEqual(["a"]);
+    expect(await worker.requestChunkIds(5)).toEqual([]);
+    expect(await worker.requestChunkIds(6)).toEqual(["b"]);
+  });
+
+  test("delivers trips in progress at the window start in chunk 0", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, [makeTrip("in-progress", at(-minutes(5))), makeTrip("a", at(minutes(1) + 40_000))]);
+    expect(await worker.requestChunkIds(0)).toEqual(["in-progress"]);
+    expect(await worker.requestChunkIds(1)).toEqual(["a"]);
+  });
+
+  test("prepares timestamps from start to end along the route", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    const trip = makeTrip("a", at(minutes(3)), 12);
+    await worker.loadBatch(0, [trip]);
+    const [prepared] = await worker.requestChunk(2);
+
+    expect(prepared.simStartTimeMs).toBe(minutes(3));
+    expect(prepared.simEndTimeMs).toBe(minutes(15));
+    expect(prepared.simVisibleStartMs).toBe(minutes(3) - FADE_MS);
+    expect(prepared.simVisibleEndMs).toBe(minutes(15) + Math.max(FADE_MS, SIM_TRAIL_LENGTH_MS));
+
+    const timestamps = Array.from(prepared.simTimestampsMs);
+    expect(timestamps[0]).toBe(prepared.simStartTimeMs);
+    expect(timestamps.at(-1)).toBeCloseTo(prepared.simEndTimeMs, -1);
+    for (let i = 1; i < timestamps.length; i++) {
+      expect(timestamps[i]).toBeGreaterThan(timestamps[i - 1]);
+    }
+
+    // Route endpoints are snapped to the trip's own coordinates
+    expect(Array.from(prepared.positions.slice(0, 2))).toEqual([trip.startLng, trip.startLat]);
+    expect(Array.from(prepared.positions.slice(-2))).toEqual([trip.endLng!, trip.endLat!]);
+    expect(prepared.realStartedAtMs).toBe(trip.startedAt.getTime());
+    expect(prepared.routeDistance).toBe(2000);
+  });
+
+  test("applies the filter it was initialized with", async () => {
+    worker = new TestWorker();
+    await worker.init({ ...ANY_TRIP_FILTER, bikeTypes: ["electric_bike"] });
+    const processed = await worker.loadBatch(0, [
+      makeTrip("classic", at(minutes(1) + 40_000)),
+      makeTrip("electric", at(minutes(1) + 50_000), 12, { bikeType: "electric_bike" }),
+    ]);
+    expect(processed.tripCount).toBe(1);
+    expect(await worker.requestChunkIds(1)).toEqual(["electric"]);
+  });
+
+  test("finds trips by the chunk they fade out in when playing backward", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, [makeTrip("a", at(minutes(2)), 10), makeTrip("b", at(minutes(3)), 20)]);
+    // a ends at 12:00 and disappears once its trail has faded (12:00 + 67.5 s)
+    const endChunk = Math.floor((minutes(12) + SIM_TRAIL_LENGTH_MS) / SIM_CHUNK_SIZE_MS);
+    expect(await worker.requestChunkIds(endChunk, "backward")).toEqual(["a"]);
+    expect(await worker.requestChunkIds(endChunk - 1, "backward")).toEqual([]);
+  });
+
+  test("pushes trips of late batches past delivered chunks", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, []);
+    for (let chunkIndex = 29; chunkIndex <= 33; chunkIndex++) {
+      await worker.requestChunkIds(chunkIndex);
+    }
+
+    // Fades in during chunk 29, which was already delivered
+    await worker.loadBatch(1, [makeTrip("short", at(minutes(30) - 20_000), 1)]);
+    expect(await worker.requestChunkIds(34)).toEqual(["short"]);
+
+    worker.post({ type: "clear-batch", batchId: 1 });
+    expect(await worker.requestChunkIds(34)).toEqual([]);
+  });
+
+  test("finds trips pushed past delivered chunks when playing backward", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, []);
+    for (let chunkIndex = 29; chunkIndex <= 33; chunkIndex++) {
+      await worker.requestChunkIds(chunkIndex);
+    }
+    await worker.loadBatch(1, [makeTrip("short", at(minutes(30) - 20_000), 1)]);
+    expect(await worker.requestChunkIds(34)).toEqual(["short"]);
+
+    // It fades out before chunk 34, the chunk it was pushed to
+    const endChunk = Math.floor((minutes(30) - 20_000 + minutes(1) + SIM_TRAIL_LENGTH_MS) / SIM_CHUNK_SIZE_MS);
+    expect(endChunk).toBeLessThan(34);
+    expect(await worker.requestChunkIds(endChunk, "backward")).toEqual(["short"]);
+
+    worker.post({ type: "clear-batch", batchId: 1 });
+    expect(await worker.requestChunkIds(endChunk, "backward")).toEqual([]);
+  });
+
+  test("clears a batch's chunks and lets them be delivered again", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, [makeTrip("a", at(minutes(35)))]);
+    expect(await worker.requestChunkIds(34)).toEqual(["a"]);
+
+    // Reloaded after the clear, it lands in its own chunk again (not pushed past it)
+    worker.post({ type: "clear-batch", batchId: 1 });
+    await worker.loadBatch(1, [makeTrip("a", at(minutes(35)))]);
+    expect(await worker.requestChunkIds(34)).toEqual(["a"]);
+    expect(await worker.requestChunkIds(35)).toEqual([]);
+  });
+
+  test("moves undelivered trips earlier when the fade gets longer", async () => {
+    worker = new TestWorker();
+    await worker.init();
+    await worker.loadBatch(0, [makeTrip("a", at(minutes(10)))]);
+
+    worker.post({ type: "set-fade-duration", realFadeDurationMs: minutes(3) });
+    expect(await worker.requestChunkIds(9)).toEqual([]);
+    const [trip] = await worker.requestChunk(7);
+    expect(trip.id).toBe("a");
+    expect(trip.simVisibleStartMs).toBe(minutes(7));
+    expect(trip.simVisibleEndMs).toBe(minutes(22) + minutes(3));
+  });
+});
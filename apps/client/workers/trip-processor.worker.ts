@@ -6,19 +6,20 @@ import { point } from "@turf/helpers";
 import {
   SIM_CHUNK_SIZE_MS,
   CHUNKS_PER_BATCH,
-  EASE_DISTANCE_METERS,
-  EASE_TIME_MULTIPLIER,
-  SIM_TRAIL_LENGTH_MS,
+  ROUTE_CACHE_MAX_ENTRIES,
 } from "../lib/config";
-import { filterTrips } from "../lib/trip-filters";
+import { getTripBuffersTransferables, packTrips } from "../lib/trip-buffers";
+import { DEFAULT_TRIP_FILTER, filterTrips, type TripFilter } from "../lib/trip-filters";
+import { getFadeBoundaries, getTimeFraction } from "../lib/trip-timing";
 import type {
   ClearBatchMessage,
   InitMessage,
   LoadBatchMessage,
   MainToWorkerMessage,
-  Phase,
-  ProcessedTrip,
+  PlaybackDirection,
+  PreparedTrip,
   RequestChunkMessage,
+  SetFadeDurationMessage,
   TripWithRoute,
   WorkerToMainMessage,
 } from "../lib/trip-types";
@@ -26,45 +27,137 @@ import type {
 // === Worker State ===
 let realWindowStartMs = 0;
 let realFadeDurationMs = 0;
+let filter: TripFilter = DEFAULT_TRIP_FILTER;
 let initialized = false;
 
-// Chunk index -> ProcessedTrip[]
-const chunkMap = new Map<number, ProcessedTrip[]>();
+// Chunk index -> PreparedTrip[]
+const chunkMap = new Map<number, PreparedTrip[]>();
 
 // Track which batches are processed
 const processedBatches = new Set<number>();
 
+// Chunks the main thread has already received when playing forward
+const deliveredChunks = new Set<number>();
+
+// Station pair -> decoded route, in least to most recently used order.
+// Thousands of trips per batch share a route, so it's decoded once and reused across batches.
+type DecodedRoute = {
+  routeGeometry: string;
+  positions: Float64Array; // flat [lng, lat, ...]
+  cumulativeDistances: Float64Array; // meters
+};
+const routeCache = new Map<string, DecodedRoute>();
+// Approximate memory held by routeCache, reported with each batch (it counts against the budget)
+let routeCacheBytes = 0;
+
+// Approximate bytes per prepared trip besides its typed arrays (object fields, metadata strings)
+const TRIP_OVERHEAD_BYTES = 400;
+// Approximate bytes per cached route besides its typed arrays and geometry (key, map entry, object)
+const ROUTE_OVERHEAD_BYTES = 200;
+
 // === Helper: Post typed message ===
-function post(message: WorkerToMainMessage): void {
-  self.postMessage(message);
+function post(message: WorkerToMainMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, transfer);
 }
 
-// === Time Fraction with Easing ===
-function getTimeFraction(dist: number, totalDist: number): number {
-  if (totalDist <= 0) return 0;
-
-  const easeDist = Math.min(EASE_DISTANCE_METERS, totalDist / 4);
-  const easeInEnd = easeDist;
-  const easeOutStart = totalDist - easeDist;
-  const linearDist = totalDist - 2 * easeDist;
-  const easeInTime = EASE_TIME_MULTIPLIER * easeDist;
-  const linearTime = linearDist;
-  const totalTime = easeInTime + linearTime + easeInTime;
-
-  if (dist < easeInEnd) {
-    const t = dist / easeDist;
-    const timeInEase = Math.sqrt(t);
-    return (timeInEase * easeInTime) / totalTime;
-  } else if (dist > easeOutStart) {
-    const distIntoEaseOut = dist - easeOutStart;
-    const t = Math.min(1, distIntoEaseOut / easeDist);
-    const timeInEase = 1 - Math.sqrt(1 - t);
-    const timeBeforeEaseOut = easeInTime + linearTime;
-    return (timeBeforeEaseOut + timeInEase * easeInTime) / totalTime;
-  } else {
-    const distIntoLinear = dist - easeInEnd;
-    return (easeInTime + distIntoLinear) / totalTime;
+// Trips are packed into fresh buffers and transferred - the worker keeps its own copies
+// (needed to re-deliver chunks when the playback direction changes)
+function postChunk(chunkIndex: number, direction: PlaybackDirection, trips: PreparedTrip[]): void {
+  const buffers = packTrips(trips);
+  post({ type: "chunk-response", chunkIndex, direction, buffers }, getTripBuffersTransferables(buffers));
+}
+
+// === Route Decoding ===
+function segmentDistance(positions: Float64Array, from: number, to: number): number {
+  return distance(
+    point([positions[from * 2], positions[from * 2 + 1]]),
+    point([positions[to * 2], positions[to * 2 + 1]]),
+    { units: "meters" }
+  );
+}
+
+function decodeRoute(routeGeometry: string): DecodedRoute {
+  // Decode polyline6 - returns [lat, lng][], flip to [lng, lat]
+  const decoded = polyline.decode(routeGeometry, 6);
+  const positions = new Float64Array(decoded.length * 2);
+  decoded.forEach(([lat, lng], i) => {
+    positions[i * 2] = lng;
+    positions[i * 2 + 1] = lat;
+  });
+
+  // Calculate cumulative distances
+  const cumulativeDistances = new Float64Array(decoded.length);
+  for (let i = 1; i < decoded.length; i++) {
+    cumulativeDistances[i] =
+      cumulativeDistances[i - 1] + segmentDistance(positions, i - 1, i);
+  }
+
+  return { routeGeometry, positions, cumulativeDistances };
+}
+
+// Routes are generated per station pair, the geometry check only guards against renamed stations
+function getDecodedRoute(
+  trip: TripWithRoute & { routeGeometry: string }
+): DecodedRoute {
+  const key = `${trip.startStationName}\n${trip.endStationName}`;
+  let route = routeCache.get(key);
+  if (!route || route.routeGeometry !== trip.routeGeometry) {
+    route = decodeRoute(trip.routeGeometry);
+  }
+
+  // (Re-)insert as most recently used, evict the least recently used
+  const previous = routeCache.get(key);
+  if (previous) {
+    routeCacheBytes -= getDecodedRouteBytes(previous);
+    routeCache.delete(key);
+  }
+  routeCache.set(key, route);
+  routeCacheBytes += getDecodedRouteBytes(route);
+  if (routeCache.size > ROUTE_CACHE_MAX_ENTRIES) {
+    const [oldestKey, oldest] = routeCache.entries().next().value!;
+    routeCacheBytes -= getDecodedRouteBytes(oldest);
+    routeCache.delete(oldestKey);
   }
+  return route;
+}
+
+// Strings take 2 bytes per character
+function getDecodedRouteBytes(route: DecodedRoute): number {
+  return (
+    route.positions.byteLength +
+    route.cumulativeDistances.byteLength +
+    route.routeGeometry.length * 2 +
+    ROUTE_OVERHEAD_BYTES
+  );
+}
+
+function getPreparedTripBytes(trip: PreparedTrip): number {
+  return (
+    trip.positions.byteLength +
+    trip.simTimestampsMs.byteLength +
+    trip.cumulativeDistances.byteLength +
+    TRIP_OVERHEAD_BYTES
+  );
+}
+
+// === Chunk Partitioning ===
+// Partition by simVisibleStartMs (not simStartTimeMs) so trips are delivered in time for
+// their fade-in. Trips that would land in an already delivered chunk go to the next one.
+// minChunk: batch 0 holds trips already in progress at the window start, deliver them in chunk 0
+function getChunkIndexForTrip(trip: PreparedTrip, minChunk: number): number {
+  let chunkIndex = Math.max(minChunk, Math.floor(trip.simVisibleStartMs / SIM_CHUNK_SIZE_MS));
+  while (deliveredChunks.has(chunkIndex)) {
+    chunkIndex++;
+  }
+  return chunkIndex;
+}
+
+function addToChunk(trip: PreparedTrip, minChunk = -Infinity): void {
+  const chunkIndex = getChunkIndexForTrip(trip, minChunk);
+  if (!chunkMap.has(chunkIndex)) {
+    chunkMap.set(chunkIndex, []);
+  }
+  chunkMap.get(chunkIndex)!.push(trip);
 }
 
 // === Prepare Trips for DeckGL ===
@@ -72,41 +165,43 @@ function prepareTripsForDeck(data: {
   trips: TripWithRoute[];
   realWindowStartMs: number;
   realFadeDurationMs: number;
-}): ProcessedTrip[] {
+  filter: TripFilter;
+}): PreparedTrip[] {
   const { trips, realWindowStartMs: winStart, realFadeDurationMs: fadeDur } = data;
 
-  // Filter trips (must have routeGeometry)
-  const validTrips = filterTrips(trips) as Array<
+  // Filter trips (must have routeGeometry). Most of the filter was already applied by DuckDB.
+  const validTrips = filterTrips(trips, data.filter) as Array<
     TripWithRoute & { routeGeometry: string }
   >;
 
   const prepared = validTrips
-    .map((trip) => {
-      // Decode polyline6 - returns [lat, lng][], flip to [lng, lat]
-      const decoded = polyline.decode(trip.routeGeometry, 6);
-      const coordinates = decoded.map(
-        ([lat, lng]) => [lng, lat] as [number, number]
-      );
-
-      if (coordinates.length < 2) return null;
-
-      coordinates[0] = [trip.startLng, trip.startLat];
+    .map((trip): PreparedTrip | null => {
+      const route = getDecodedRoute(trip);
+      const vertexCount = route.cumulativeDistances.length;
+      if (vertexCount < 2) return null;
+
+      // Copy the cached route and snap its endpoints to the trip's own coordinates
+      const positions = route.positions.slice();
+      const lastIdx = vertexCount - 1;
+      positions[0] = trip.startLng;
+      positions[1] = trip.startLat;
       if (trip.endLat && trip.endLng) {
-        coordinates[coordinates.length - 1] = [trip.endLng, trip.endLat];
+        positions[lastIdx * 2] = trip.endLng;
+        positions[lastIdx * 2 + 1] = trip.endLat;
       }
 
-      // Calculate cumulative distances
-      const cumulativeDistances: number[] = [0];
-      for (let i = 1; i < coordinates.length; i++) {
-        const segmentDist = distance(
-          point(coordinates[i - 1]),
-          point(coordinates[i]),
-          { units: "meters" }
-        );
-        cumulativeDistances.push(cumulativeDistances[i - 1] + segmentDist);
+      // Only the first and last segments change with the endpoints
+      const cumulativeDistances = new Float32Array(vertexCount);
+      const firstSegmentOffset =
+        segmentDistance(positions, 0, 1) - route.cumulativeDistances[1];
+      for (let i = 1; i < lastIdx; i++) {
+        cumulativeDistances[i] = route.cumulativeDistances[i] + firstSegmentOffset;
       }
+      cumulativeDistances[lastIdx] =
+        cumulativeDistances[lastIdx - 1] +
+        segmentDistance(positions, lastIdx - 1, lastIdx);
 
-      const totalDistance = cumulativeDistances[cumulativeDistances.length - 1];
+      const totalDistance = cumulativeDistances[lastIdx];
 
       // Convert to simulation ms from window start
       const simTripStartMs = trip.startedAt.getTime() - winStart;
@@ -119,10 +214,6 @@ function prepareTripsForDeck(data: {
         return simTripStartMs + timeFraction * simTripDurationMs;
       });
 
-      // Precompute phase boundaries (simulation time)
-      const simVisibleStartMs = simTripStartMs - fadeDur;
-      const simFadeInEndMs = simVisibleStartMs + fadeDur;
-
       // Precompute fade-in bearing using 20m look-ahead
       const lookAheadDistPrep = Math.min(20, totalDistance);
       let laIdxPrep = 0;
@@ -138,50 +229,34 @@ function prepareTripsForDeck(data: {
         laD1Prep > laD0Prep
           ? (lookAheadDistPrep - laD0Prep) / (laD1Prep - laD0Prep)
           : 0;
-      const laP0Prep = coordinates[laIdxPrep];
-      const laP1Prep = coordinates[laIdxPrep + 1] ?? laP0Prep;
+      const laP0Prep = laIdxPrep * 2;
+      const laP1Prep = Math.min(laIdxPrep + 1, lastIdx) * 2;
       const lookAheadXPrep =
-        laP0Prep[0] + laFracPrep * (laP1Prep[0] - laP0Prep[0]);
+        positions[laP0Prep] + laFracPrep * (positions[laP1Prep] - positions[laP0Prep]);
       const lookAheadYPrep =
-        laP0Prep[1] + laFracPrep * (laP1Prep[1] - laP0Prep[1]);
+        positions[laP0Prep + 1] +
+        laFracPrep * (positions[laP1Prep + 1] - positions[laP0Prep + 1]);
       const firstSegmentBearing =
-        Math.atan2(
-          lookAheadXPrep - coordinates[0][0],
-          lookAheadYPrep - coordinates[0][1]
-        ) *
+        Math.atan2(lookAheadXPrep - positions[0], lookAheadYPrep - positions[1]) *
         (180 / Math.PI);
 
       // Precompute last segment bearing
-      const lastIdx = coordinates.length - 1;
-      const fdxN = coordinates[lastIdx][0] - coordinates[lastIdx - 1][0];
-      const fdyN = coordinates[lastIdx][1] - coordinates[lastIdx - 1][1];
+      const fdxN = positions[lastIdx * 2] - positions[(lastIdx - 1) * 2];
+      const fdyN = positions[lastIdx * 2 + 1] - positions[(lastIdx - 1) * 2 + 1];
       const lastSegmentBearing = Math.atan2(fdxN, fdyN) * (180 / Math.PI);
 
       return {
         id: trip.id,
-        path: coordinates,
+        positions,
         simTimestampsMs,
         bikeType: trip.bikeType,
         simStartTimeMs: simTripStartMs,
         simEndTimeMs: simTripEndMs,
-        simVisibleStartMs,
-        simVisibleEndMs: simTripEndMs + Math.max(fadeDur, SIM_TRAIL_LENGTH_MS),
+        // Precompute phase boundaries (simulation time)
+        ...getFadeBoundaries(simTripStartMs, simTripEndMs, fadeDur),
         cumulativeDistances,
-        lastSegmentIndex: 0,
-        simFadeInEndMs,
         firstSegmentBearing,
         lastSegmentBearing,
-        // Mutable state - initialized here, updated by main thread
-        currentPosition: [0, 0] as [number, number],
-        currentBearing: 0,
-        currentPhase: "fading-in" as Phase,
-        currentPhaseProgress: 0,
-        isVisible: false,
-        isSelected: false,
-        currentHeadColor: [0, 0, 0, 0] as [number, number, number, number],
-        currentPathColor: [0, 0, 0, 0] as [number, number, number, number],
-        // Viewer-relative tracking (null = never seen by viewer)
-        simViewerFirstSeenMs: null as number | null,
         // Metadata for UI display (real timestamps)
         memberCasual: trip.memberCasual,
         startStationName: trip.startStationName,
@@ -191,7 +266,7 @@ function prepareTripsForDeck(data: {
         routeDistance: trip.routeDistance,
       };
     })
-    .filter((trip): trip is ProcessedTrip => trip !== null);
+    .filter((trip): trip is PreparedTrip => trip !== null);
 
   return prepared;
 }
@@ -201,6 +276,7 @@ function prepareTripsForDeck(data: {
 function handleInit(msg: InitMessage): void {
   realWindowStartMs = msg.realWindowStartMs;
   realFadeDurationMs = msg.realFadeDurationMs;
+  filter = msg.filter;
   initialized = true;
   post({ type: "ready" });
 }
@@ -211,28 +287,36 @@ function handleLoadBatch(msg: LoadBatchMessage): void {
       type: "error",
       message: "Worker not initialized",
       context: "handleLoadBatch",
+      batchId: msg.batchId,
     });
     return;
   }
 
   const { batchId, trips } = msg;
 
-  // Process all trips (heavy CPU work)
-  const processed = prepareTripsForDeck({
-    trips,
-    realWindowStartMs,
-    realFadeDurationMs,
-  });
+  // Process all trips (heavy CPU work). Nothing is kept if it fails - the main thread retries or skips the batch.
+  let processed: PreparedTrip[];
+  try {
+    processed = prepareTripsForDeck({
+      trips,
+      realWindowStartMs,
+      realFadeDurationMs,
+      filter,
+    });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      context: "handleLoadBatch",
+      batchId,
+    });
+    return;
+  }
 
-  // Partition into chunks by simVisibleStartMs (not simStartTimeMs)
-  // This ensures trips are delivered in time for their fade-in animation
+  let bytes = 0;
   for (const trip of processed) {
-    const chunkIndex = Math.max(0, Math.floor(trip.simVisibleStartMs / SIM_CHUNK_SIZE_MS));
-
-    if (!chunkMap.has(chunkIndex)) {
-      chunkMap.set(chunkIndex, []);
-    }
-    chunkMap.get(chunkIndex)!.push(trip);
+    addToChunk(trip, batchId === 0 ? 0 : -Infinity);
+    bytes += getPreparedTripBytes(trip);
   }
 
   processedBatches.add(batchId);
@@ -241,18 +325,51 @@ function handleLoadBatch(msg: LoadBatchMessage): void {
     type: "batch-processed",
     batchId,
     tripCount: processed.length,
+    bytes,
+    routeCacheBytes,
   });
 }
 
 function handleRequestChunk(msg: RequestChunkMessage): void {
-  const { chunkIndex } = msg;
-  const trips = chunkMap.get(chunkIndex) ?? [];
+  const { chunkIndex, direction } = msg;
+  try {
+    respondToChunkRequest(chunkIndex, direction);
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      context: "handleRequestChunk",
+      chunkIndex,
+      direction,
+    });
+  }
+}
 
-  post({
-    type: "chunk-response",
-    chunkIndex,
-    trips,
-  });
+function respondToChunkRequest(chunkIndex: number, direction: PlaybackDirection): void {
+  if (direction === "forward") {
+    deliveredChunks.add(chunkIndex);
+    postChunk(chunkIndex, direction, chunkMap.get(chunkIndex) ?? []);
+    return;
+  }
+
+  // Backward: trips whose fade-out ends in this chunk. They can start in any earlier chunk, and
+  // their own chunk can be a later one (trips are pushed past delivered chunks), so scan them all.
+  const trips: PreparedTrip[] = [];
+  for (const chunkTrips of chunkMap.values()) {
+    for (const trip of chunkTrips) {
+      if (Math.floor(trip.simVisibleEndMs / SIM_CHUNK_SIZE_MS) === chunkIndex) {
+        trips.push(trip);
+      }
+    }
+  }
+
+  // The main thread drops trips that haven't started yet when playing backward,
+  // so later chunks have to be delivered again when playing forward
+  for (const delivered of deliveredChunks) {
+    if (delivered >= chunkIndex) deliveredChunks.delete(delivered);
+  }
+
+  postChunk(chunkIndex, direction, trips);
 }
 
 function handleClearBatch(msg: ClearBatchMessage): void {
@@ -262,10 +379,31 @@ function handleClearBatch(msg: ClearBatchMessage): void {
 
   for (let i = startChunk; i < endChunk; i++) {
     chunkMap.delete(i);
+    deliveredChunks.delete(i);
   }
   processedBatches.delete(batchId);
 }
 
+// Speed changed mid-playback: recompute fade boundaries and re-partition undelivered trips
+// (a longer fade means trips must be delivered earlier)
+function handleSetFadeDuration(msg: SetFadeDurationMessage): void {
+  realFadeDurationMs = msg.realFadeDurationMs;
+
+  const undelivered: PreparedTrip[] = [];
+  for (const [chunkIndex, trips] of chunkMap) {
+    for (const trip of trips) {
+      Object.assign(trip, getFadeBoundaries(trip.simStartTimeMs, trip.simEndTimeMs, realFadeDurationMs));
+    }
+    if (!deliveredChunks.has(chunkIndex)) {
+      undelivered.push(...trips);
+      chunkMap.delete(chunkIndex);
+    }
+  }
+  for (const trip of undelivered) {
+    addToChunk(trip);
+  }
+}
+
 // === Main Message Handler ===
 self.onmessage = (event: MessageEvent<MainToWorkerMessage>) => {
   const message = event.data;
@@ -283,6 +421,9 @@ self.onmessage = (event: MessageEvent<MainToWorkerMessage>) => {
     case "clear-batch":
       handleClearBatch(message);
       break;
+    case "set-fade-duration":
+      handleSetFadeDuration(message);
+      break;
   }
 };
 
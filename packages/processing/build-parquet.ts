@@ -12,6 +12,8 @@
 //
 // Output:
 // - output/parquets/<year>-<month>-<day>.parquet for each day with data
+// - output/parquets/manifest.json listing every day file (see DatasetManifest)
+// - output/parquets/trip-index.parquet with the day of every trip id
 import { DuckDBConnection } from "@duckdb/node-api";
 import { globSync } from "glob";
 import { mkdir, readdir, rename, rm, rmdir, stat } from "node:fs/promises";
@@ -20,6 +22,37 @@ import { csvGlob, dataDir, formatHumanReadableBytes, gitRoot, NYC_BOUNDS, output
 
 const routesDbPath = path.join(outputDir, "routes.db");
 
+// Bump when the parquet columns change so clients can skip files they can't read
+const PARQUET_SCHEMA_VERSION = 1;
+
+// Longest ride counted in a day's maxEndedAtMs. Longer ones are bikes that weren't docked
+// properly - counting them would pull their day into every overlap query for days after
+// (the client leaves them out of playback).
+// Mirrors MAX_RIDE_DURATION_MS in apps/client/lib/config.ts
+const MAX_RIDE_DURATION_HOURS = 4;
+
+// Trip id → day lookup for ride permalinks without a start time, sorted by id so a lookup
+// over HTTP reads one row group
+const TRIP_INDEX_FILE = "trip-index.parquet";
+
+// Mirrors DatasetManifest in apps/client/lib/trip-types.ts
+type DatasetManifestDay = {
+  day: string; // UTC day, e.g. "2025-09-15"
+  file: string; // e.g. "2025-09-15.parquet"
+  tripCount: number;
+  bytes: number;
+  minStartedAtMs: number;
+  maxStartedAtMs: number;
+  maxEndedAtMs: number; // latest end of a ride starting that day, up to MAX_RIDE_DURATION_HOURS long
+  schemaVersion: number;
+};
+
+type DatasetManifest = {
+  generatedAt: string;
+  days: DatasetManifestDay[];
+  tripIndexFile: string;
+};
+
 type ValidationResult = {
   total_rows: bigint;
   null_ride_id: bigint;
@@ -343,6 +376,8 @@ async function main() {
   console.log("\nExporting parquet files with PARTITION_BY (parallel)...");
   const parquetsDir = path.join(outputDir, "parquets");
   const exportStart = Date.now();
+  // The per-day stats below read every parquet file in the directory
+  await rm(path.join(parquetsDir, TRIP_INDEX_FILE), { force: true });
 
   await connection.run(`
     COPY (
@@ -416,24 +451,68 @@ async function main() {
   }
   console.log(`Renamed ${fileCount} partition directories`);
 
-  // 7. Compute final stats
+  // 7. Compute per-day stats and write manifest.json
   console.log("\nComputing final statistics...");
-  const statsReader = await connection.runAndReadAll(`
-    SELECT COUNT(*) as total_with_route
-    FROM read_parquet('${parquetsDir}/*.parquet')
+  const dayStatsReader = await connection.runAndReadAll(`
+    SELECT
+      regexp_extract(filename, '(\\d{4}-\\d{2}-\\d{2})\\.parquet$', 1) as day,
+      COUNT(*) as trip_count,
+      epoch_ms(MIN(startedAt)) as min_started_at_ms,
+      epoch_ms(MAX(startedAt)) as max_started_at_ms,
+      epoch_ms(COALESCE(
+        MAX(endedAt) FILTER (WHERE endedAt <= startedAt + INTERVAL ${MAX_RIDE_DURATION_HOURS} HOUR),
+        MAX(startedAt)
+      )) as max_ended_at_ms
+    FROM read_parquet('${parquetsDir}/*.parquet', filename = true)
+    GROUP BY day
+    ORDER BY day
   `);
-  const totalWithRoute = Number((statsReader.getRowObjects()[0] as { total_with_route: bigint }).total_with_route);
-
-  // Get total parquet size
+  const dayStats = dayStatsReader.getRowObjects() as Array<{
+    day: string;
+    trip_count: bigint;
+    min_started_at_ms: bigint;
+    max_started_at_ms: bigint;
+    max_ended_at_ms: bigint;
+  }>;
+
+  const manifestDays: DatasetManifestDay[] = [];
+  let totalWithRoute = 0;
   let totalParquetBytes = 0;
-  const parquetFiles = await readdir(parquetsDir);
-  for (const file of parquetFiles) {
-    if (file.endsWith(".parquet")) {
-      const fileStat = await stat(path.join(parquetsDir, file));
-      totalParquetBytes += fileStat.size;
-    }
+  for (const row of dayStats) {
+    const file = `${row.day}.parquet`;
+    const bytes = (await stat(path.join(parquetsDir, file))).size;
+    manifestDays.push({
+      day: row.day,
+      file,
+      tripCount: Number(row.trip_count),
+      bytes,
+      minStartedAtMs: Number(row.min_started_at_ms),
+      maxStartedAtMs: Number(row.max_started_at_ms),
+      maxEndedAtMs: Number(row.max_ended_at_ms),
+      schemaVersion: PARQUET_SCHEMA_VERSION,
+    });
+    totalWithRoute += Number(row.trip_count);
+    totalParquetBytes += bytes;
   }
 
+  await connection.run(`
+    COPY (
+      SELECT id, regexp_extract(filename, '(\\d{4}-\\d{2}-\\d{2})\\.parquet$', 1) as day
+      FROM read_parquet('${parquetsDir}/*.parquet', filename = true)
+      ORDER BY id
+    )
+    TO '${path.join(parquetsDir, TRIP_INDEX_FILE)}' (FORMAT PARQUET, COMPRESSION ZSTD, ROW_GROUP_SIZE 16384)
+  `);
+  console.log(`Wrote ${TRIP_INDEX_FILE}`);
+
+  const manifest: DatasetManifest = {
+    generatedAt: new Date().toISOString(),
+    days: manifestDays,
+    tripIndexFile: TRIP_INDEX_FILE,
+  };
+  await Bun.write(path.join(parquetsDir, "manifest.json"), JSON.stringify(manifest));
+  console.log(`Wrote manifest.json (${manifestDays.length} days)`);
+
   // Count trips before route join (from deduped table)
   const totalTripCount = dedupedCount;
 